@@ -1,3 +1,5 @@
+import { requestAborted } from '~@vite/vitejs-error';
+
 import Communication from '~@vite/vitejs-communication/communication.js';
 const XMLHttpRequest = typeof window !== 'undefined' && window.XMLHttpRequest
     ? window.XMLHttpRequest : require('xhr2');
@@ -28,7 +30,11 @@ class HttpRpc extends Communication {
         return request;
     }
 
-    _send(payload) {
+    _send(payload, { signal, timeout = this.timeout } = {}) {
+        if (signal && signal.aborted) {
+            return Promise.reject(requestAborted);
+        }
+
         return new Promise((res, rej) => {
             // Init request
             let resetAbort = false;
@@ -41,22 +47,35 @@ class HttpRpc extends Communication {
                 }
             });
 
+            const onAbort = () => {
+                if (resetAbort) {
+                    return;
+                }
+
+                request.abort();
+                clearRequestAndTimeout();
+                return rej(requestAborted);
+            };
+
             const clearRequestAndTimeout = () => {
                 requestTimeout && clearTimeout(requestTimeout);
                 requestTimeout = null;
+                signal && signal.removeEventListener('abort', onAbort);
                 this._removeReq(_request);
             };
 
             // Set request timeout
-            let requestTimeout = this.timeout ? setTimeout(() => {
+            let requestTimeout = timeout ? setTimeout(() => {
                 if (resetAbort) {
                     return;
                 }
 
                 request.abort();
                 clearRequestAndTimeout();
-                return rej(this.ERRORS.TIMEOUT(this.timeout));
-            }, this.timeout) : null;
+                return rej(this.ERRORS.TIMEOUT(timeout));
+            }, timeout) : null;
+
+            signal && signal.addEventListener('abort', onAbort);
 
             // Request finish
             request.onreadystatechange = () => {
@@ -89,14 +108,14 @@ class HttpRpc extends Communication {
         });
     }
 
-    request(methodName, params) {
+    request(methodName, params, options) {
         const requestObj = this._getRequestPayload(methodName, params);
 
         if (requestObj instanceof Error) {
             return Promise.reject(requestObj);
         }
 
-        return this._send(requestObj).then(res => {
+        return this._send(requestObj, options).then(res => {
             if (!res) {
                 throw this.ERRORS.INVAILID_RESPONSE(res);
             }
@@ -121,15 +140,16 @@ class HttpRpc extends Communication {
     /**
      * batch
      * @param {*} requests [{type, methodName, params}]
+     * @param {*} options {signal, timeout}
      */
-    batch(requests = []) {
+    batch(requests = [], options) {
         let _requests = this._getBatchPayload(requests);
 
         if (_requests instanceof Error) {
             return Promise.reject(_requests);
         }
 
-        return this._send(_requests).then(results => {
+        return this._send(_requests, options).then(results => {
             results = (results || []).sort((a, b) => a.id - b.id);
 
             const _results = [];
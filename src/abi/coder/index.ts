@@ -1,5 +1,5 @@
 import { isArray } from '~@vite/vitejs-utils';
-import { formatType } from '../inputsType';
+import { formatType, getArrItemType } from '../inputsType';
 
 import { encode as commonEncode, decode as commonDecode } from './common';
 import { encode as dynamicEncode, decode as dynamicDecode } from './dynamic';
@@ -26,26 +26,15 @@ const decode = {
 
 export function encodeParameter(typeStr, params) {
     const typeObj = formatType(typeStr);
-    if (!typeObj.isArr && [ 'string', 'boolean', 'number' ].indexOf(typeof params) === -1) {
-        throw new Error(`[Error] Illegal type or params. type: ${ typeObj.type }, params: ${ params }`);
-    }
-
-    if (typeObj.isArr && !isArray(params)) {
-        try {
-            params = JSON.parse(params);
-            if (!isArray(params)) {
-                throw new Error(`[Error] Illegal type or params. type: ${ typeObj.typeStr }, params: ${ params }`);
-            }
-        } catch (err) {
-            throw new Error(`[Error] Illegal type or params. type: ${ typeObj.typeStr }, params: ${ params }`);
-        }
-    }
-
-    if (!typeObj.isArr) {
+    if (!typeObj.isArr && typeObj.type !== 'tuple') {
+        checkSingleParams(typeObj, params);
         return encode[typeObj.type](typeObj, params);
     }
 
-    return encodeArrs(typeObj, params);
+    return {
+        typeObj,
+        result: encodeValue(typeObj, params)
+    };
 }
 
 export function encodeParameters(types, params) {
@@ -57,7 +46,6 @@ export function encodeParameters(types, params) {
         throw new Error('[Error] Illegal inputs. Inputs should be array.');
     }
 
-    // console.log(types);
     if (!types.length) {
         return '';
     }
@@ -66,56 +54,20 @@ export function encodeParameters(types, params) {
         throw new Error('[Error] Illegal params. Params should be array and the length should be equal to inputs.length');
     }
 
-    const tempResult = [];
-    const dynamicRes = [];
-    let totalLength = 0;
-
-    types.forEach((type, i) => {
-        const _res = encodeParameter(type, params[i]);
-
-        if (!_res.typeObj.isDynamic) {
-            totalLength += _res.result.length;
-            tempResult.push(_res.result);
-            return;
-        }
-
-        let result = _res.result;
-        if (_res.typeObj.type === 'bytes' && !_res.typeObj.isArr) {
-            result = result.slice(64);
-        }
-
-        totalLength += 64;
-        tempResult.push(false);
-        dynamicRes.push(result);
-    });
-
-    let result = '';
-    let dynamicResult = '';
-    tempResult.forEach(_r => {
-        if (_r) {
-            result += _r;
-            return;
-        }
-
-        const index = (totalLength + dynamicResult.length) / 2;
-        result += encode.number({ type: 'number', typeStr: 'uint', byteLength: 32, isArr: false }, index).result;
-        dynamicResult += dynamicRes.shift();
-    });
-
-    return result + dynamicResult;
+    return encodeTuple(types.map(type => formatType(type)), params);
 }
 
 export function decodeParameter(typeStr, params) {
     const typeObj = formatType(typeStr);
-    if (!typeObj.isArr) {
+    if (!typeObj.isArr && typeObj.type !== 'tuple') {
         return decode[typeObj.type](typeObj, params).result;
     }
-    return decodeArrs(typeObj, params);
+
+    checkHexParams(params);
+    return decodeValue(typeObj, params, 0);
 }
 
 export function decodeParameters(types, params) {
-    // console.log('startDecode', types, params);
-
     if (!isArray(types)) {
         throw new Error('[Error] Illegal types. Should be array.');
     }
@@ -124,159 +76,221 @@ export function decodeParameters(types, params) {
         return null;
     }
 
-    let _params = params;
-    const resArr = [];
-    const indexArr = [];
-
-    types.forEach(type => {
-        const typeObj = formatType(type);
-        // console.log(typeObj);
-        if (!typeObj.isDynamic && typeObj.isArr) {
-            let len = 0;
-            typeObj.arrLen.forEach(_l => {
-                len += _l * typeObj.byteLength;
-            });
-            const _p = _params.slice(0, len * 2);
-            _params = _params.slice(len * 2);
-            resArr.push({
-                isDynamic: false,
-                result: decodeArrs(typeObj, _p)
-            });
-            return;
-        }
+    checkHexParams(params);
+    return decodeTuple(types.map(type => formatType(type)), params, 0);
+}
+
+
+// Solidity ABI: static items are encoded in place (head),
+// dynamic items are replaced by an offset in the head and appended to the tail.
+function encodeTuple(typeObjs, params) {
+    const heads = [];
+    const tails = [];
+    let headLength = 0;
+
+    typeObjs.forEach((typeObj, i) => {
+        const result = encodeValue(typeObj, params[i]);
 
         if (!typeObj.isDynamic) {
-            const _res = decode[typeObj.type](typeObj, _params);
-            _params = _res.params;
-            resArr.push({
-                isDynamic: false,
-                result: _res.result
-            });
+            headLength += result.length;
+            heads.push(result);
             return;
         }
 
-        const _res = decode.number({ type: 'number', typeStr: 'uint', byteLength: 32, isArr: false }, _params);
-        const index = _res.result;
-        _params = _res.params;
-        indexArr.push(index * 2);
-        resArr.push({
-            isDynamic: true,
-            typeObj,
-            index: index * 2
-        });
+        headLength += 64;
+        heads.push(false);
+        tails.push(result);
     });
 
-    const result = [];
-    let currentInx = 0;
-    resArr.forEach((_res, i) => {
-        if (!_res.isDynamic) {
-            result.push(_res.result);
+    let result = '';
+    let tailResult = '';
+    heads.forEach(_h => {
+        if (_h !== false) {
+            result += _h;
             return;
         }
 
-        let _p;
-        if ((currentInx + 1) === indexArr.length) {
-            _p = params.slice(_res.index);
-        } else {
-            _p = params.slice(_res.index, indexArr[currentInx + 1]);
-        }
-
-        if (_res.typeObj.type === 'bytes' && !_res.typeObj.isArr) {
-            const len = 32 * Math.ceil(_p.length / 2 / 32);
-            _p = encode.number({ type: 'number', typeStr: 'uint', byteLength: 32 }, len).result + _p;
-        }
-        currentInx++;
-
-        result.push(decodeParameter(types[i], _p));
+        result += encodeUint((headLength + tailResult.length) / 2);
+        tailResult += tails.shift();
     });
 
-    return result;
+    return result + tailResult;
 }
 
+function encodeValue(typeObj, params) {
+    if (typeObj.isArr) {
+        return encodeArr(typeObj, params);
+    }
 
-function encodeArr(typeObj, arrLen, params) {
-    if (!params || (arrLen && params.length !== Number(arrLen))) {
-        throw new Error(`[Error] Params.length !== arr.length. Params: ${ JSON.stringify(params) }. ${ JSON.stringify(typeObj) }`);
+    if (typeObj.type === 'tuple') {
+        return encodeTuple(typeObj.components, formatTupleParams(typeObj, params));
     }
 
-    let result = '';
-    params.forEach(_param => {
-        const res = encode[typeObj.type](typeObj, _param);
-        result += res.result;
-    });
+    checkSingleParams(typeObj, params);
+    const result = encode[typeObj.type](typeObj, params).result;
+
+    // encode.bytes returns data with its own offset, the offset of tuple is used instead.
+    return typeObj.type === 'bytes' && typeObj.isDynamic ? result.slice(64) : result;
+}
+
+function encodeArr(typeObj, params) {
+    const _params = formatArrParams(typeObj, params);
 
-    const bytesArrLen = arrLen ? ''
-        : encode.number({ type: 'number', typeStr: 'uint', byteLength: 32, isArr: false }, params.length).result;
+    const { itemTypeObj, arrLen } = getArrItem(typeObj);
+    if (arrLen && _params.length !== arrLen) {
+        throw new Error(`[Error] Params.length !== arr.length. Params: ${ JSON.stringify(_params) }. ${ JSON.stringify(typeObj) }`);
+    }
 
-    return bytesArrLen + result;
+    const result = encodeTuple(_params.map(() => itemTypeObj), _params);
+    return arrLen ? result : encodeUint(_params.length) + result;
 }
 
-function encodeArrs(typeObj, params) {
-    let result = '';
-    const lenArr = typeObj.arrLen;
+function decodeTuple(typeObjs, params, start) {
+    let index = start;
 
-    const loop = (params, i = 0) => {
-        if (i === lenArr.length - 1) {
-            result += encodeArr(typeObj, lenArr[lenArr.length - i - 1], params);
-            return;
+    return typeObjs.map(typeObj => {
+        if (!typeObj.isDynamic) {
+            const result = decodeValue(typeObj, params, index);
+            index += getStaticLength(typeObj);
+            return result;
         }
-        i++;
-        isArray(params) && params.forEach(_p => {
-            loop(_p, i);
-        });
-    };
 
-    loop(params);
-    return { typeObj, result };
+        const offset = decodeUint(params, index);
+        index += 64;
+        return decodeValue(typeObj, params, start + offset * 2);
+    });
 }
 
-function decodeArr(typeObj, arrLen, params) {
-    let _param = params;
-    if (typeObj.isDynamic) {
-        const len = params.substring(0, 64);
-        arrLen = decode.number({ type: 'number', typeStr: 'uint', byteLength: 32, isArr: false }, len).result;
-        _param = params.substring(64);
+function decodeValue(typeObj, params, index) {
+    if (typeObj.isArr) {
+        return decodeArr(typeObj, params, index);
     }
 
-    const result = [];
-    for (let i = 0; i < arrLen; i++) {
-        const res = decode[typeObj.type](typeObj, _param);
-        result.push(res.result);
-        _param = res.params;
+    if (typeObj.type === 'tuple') {
+        return decodeTupleValue(typeObj, params, index);
     }
 
-    return { result, params: _param };
+    let _params = params.substring(index);
+    if (typeObj.type === 'bytes' && typeObj.isDynamic) {
+        _params = encodeUint(0) + _params;
+    }
+    return decode[typeObj.type](typeObj, _params).result;
 }
 
-function decodeArrs(typeObj, params) {
-    const lenArr = typeObj.arrLen;
+// Result of tuple is an array, which can also be read by the names of components.
+function decodeTupleValue(typeObj, params, index) {
+    const result = decodeTuple(typeObj.components, params, index);
 
-    const loop = (i = 0, result?) => {
-        if ((lenArr.length <= 1 && i === lenArr.length)
-            || (lenArr.length > 1 && i === lenArr.length - 1)) {
-            return result;
+    typeObj.components.forEach(({ name }, i) => {
+        if (name && !(name in result)) {
+            result[name] = result[i];
         }
+    });
+    return result;
+}
+
+function decodeArr(typeObj, params, index) {
+    const arrItem = getArrItem(typeObj);
+    const itemTypeObj = arrItem.itemTypeObj;
+    let arrLen = arrItem.arrLen;
+    let start = index;
+
+    if (!arrLen) {
+        arrLen = decodeUint(params, index);
+        start += 64;
 
-        const l = lenArr[i];
-        let _r = [];
-
-        if (result) {
-            let resultOpt = result && result.length;
-            while (resultOpt) {
-                _r.push(result.splice(0, l));
-                resultOpt = result && result.length;
-            }
-        } else {
-            while (params) {
-                const _res = decodeArr(typeObj, l, params);
-                params = _res.params;
-                _r.push(_res.result);
-            }
-            _r = _r.length > 1 ? _r : _r[0];
+        const itemLength = itemTypeObj.isDynamic ? 64 : getStaticLength(itemTypeObj);
+        if (arrLen * itemLength > params.length - start) {
+            throw new Error(`[Error] Illegal length. ${ typeObj.typeStr }, array length: ${ arrLen }`);
         }
+    }
+
+    const itemTypeObjs = [];
+    for (let i = 0; i < arrLen; i++) {
+        itemTypeObjs.push(itemTypeObj);
+    }
+    return decodeTuple(itemTypeObjs, params, start);
+}
 
-        i++;
-        return loop(i, _r);
+
+// uint32[2][3] ==> { itemTypeObj: uint32[2], arrLen: 3 }
+function getArrItem(typeObj) {
+    return {
+        itemTypeObj: getArrItemType(typeObj),
+        arrLen: Number(typeObj.arrLen[typeObj.arrLen.length - 1])
     };
-    return loop();
+}
+
+function getStaticLength(typeObj) {
+    if (!typeObj.isArr && typeObj.type === 'tuple') {
+        let length = 0;
+        typeObj.components.forEach(_c => {
+            length += getStaticLength(_c);
+        });
+        return length;
+    }
+
+    if (!typeObj.isArr) {
+        return typeObj.byteLength * 2;
+    }
+
+    const { itemTypeObj, arrLen } = getArrItem(typeObj);
+    return arrLen * getStaticLength(itemTypeObj);
+}
+
+function formatArrParams(typeObj, params) {
+    const _params = parseJSONParams(params);
+    if (!isArray(_params)) {
+        throw new Error(`[Error] Illegal type or params. type: ${ typeObj.typeStr }, params: ${ params }`);
+    }
+    return _params;
+}
+
+function formatTupleParams(typeObj, params) {
+    const _params = parseJSONParams(params);
+
+    if (isArray(_params)) {
+        if (_params.length !== typeObj.components.length) {
+            throw new Error(`[Error] Params.length !== components.length. Params: ${ JSON.stringify(_params) }. ${ typeObj.typeStr }`);
+        }
+        return _params;
+    }
+
+    if (!_params || typeof _params !== 'object') {
+        throw new Error(`[Error] Illegal type or params. type: ${ typeObj.typeStr }, params: ${ params }`);
+    }
+    return typeObj.components.map(({ name }) => _params[name]);
+}
+
+function parseJSONParams(params) {
+    if (typeof params !== 'string') {
+        return params;
+    }
+
+    try {
+        return JSON.parse(params);
+    } catch (err) {
+        return null;
+    }
+}
+
+function checkSingleParams(typeObj, params) {
+    if ([ 'string', 'boolean', 'number' ].indexOf(typeof params) === -1) {
+        throw new Error(`[Error] Illegal type or params. type: ${ typeObj.type }, params: ${ params }`);
+    }
+}
+
+function checkHexParams(params) {
+    if (typeof params !== 'string' || !/^([0-9a-fA-F]{2})*$/.test(params)) {
+        throw new Error('[Error] decode, params should be hex-string.');
+    }
+}
+
+function encodeUint(num) {
+    return encode.number({ type: 'number', typeStr: 'uint', byteLength: 32, isArr: false }, num).result;
+}
+
+function decodeUint(params, index) {
+    const _params = params.substring(index, index + 64);
+    return Number(decode.number({ type: 'number', typeStr: 'uint', actualByteLen: 32, byteLength: 32, isArr: false }, _params).result);
 }
@@ -1,5 +1,5 @@
 import { blake2bHex, isArray, isObject } from '~@vite/vitejs-utils';
-import { getTypes } from './inputsType';
+import { getTypes, getTypeStr } from './inputsType';
 
 
 export function encodeFunction(jsonFunction, methodName?) {
@@ -43,5 +43,5 @@ function jsonFunctionToString(jsonFunction) {
     }
 
     const types = getTypes(jsonFunction);
-    return `${ jsonFunction.name }(${ types.join(',') })`;
+    return `${ jsonFunction.name }(${ types.map(getTypeStr).join(',') })`;
 }
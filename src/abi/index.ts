@@ -2,7 +2,9 @@ import { isArray, isObject } from '~@vite/vitejs-utils';
 
 import { encodeFunction, getFunction } from './encodeFunction';
 import { encodeParameter as _encodeParameter, encodeParameters as _encodeParameters, decodeParameter as _decodeParameter, decodeParameters as _decodeParameters } from './coder';
-import { getTypes } from './inputsType';
+import { getType, getTypes, validType } from './inputsType';
+
+export { getTypes, validType };
 
 
 export function encodeLogSignature(jsonFunction, methodName?: string) {
@@ -57,11 +59,12 @@ export function decodeLog(inputs, data = '', topics, methodName?: string) {
         indexedParams[i] = input;
 
         if (!input.indexed) {
-            notIndexedInputsShow.push(input.type);
+            notIndexedInputsShow.push(getType(input));
             return;
         }
 
-        indexedParams[i].result = decodeParameter(input.type, topics[topicCount]);
+        // Indexed tuple is stored as the hash of it, can't be decoded.
+        indexedParams[i].result = input.components ? topics[topicCount] : decodeParameter(input.type, topics[topicCount]);
         topicCount++;
     });
 
@@ -2,26 +2,22 @@ import { isArray, isObject } from '~@vite/vitejs-utils';
 
 const ADDR_SIZE = 21;
 const getNum = new RegExp(/(\d+)/g);
-const typePre = [ 'uint', 'int', 'address', 'bool', 'bytes', 'string', 'tokenId', 'gid' ];
+const typePre = [ 'uint', 'int', 'address', 'bool', 'bytes', 'string', 'tokenId', 'gid', 'tuple' ];
 
+// typeStr: 'uint8[]' or { type: 'tuple[]', components: [{ name: 'a', type: 'uint8' }] }
 function formatType(typeStr) {
-    const { isArr, type, size } = validType(typeStr);
+    if (typeStr && typeof typeStr === 'object') {
+        return formatTupleType(typeStr);
+    }
 
-    const arrLen = [];
-    let isDynamic = type === 'string';
-    if (isArr) {
-        const _typeStrArr = typeStr.split('[').slice(1);
-        if (_typeStrArr.length > 1) {
-            console.warn(`Not support [][][] like ${ typeStr }, now.`);
-        }
-        _typeStrArr.forEach(_tArr => {
-            const _len = _tArr.match(/\d+/g);
-            const len = _len && _len[0] ? _len[0] : 0;
-            isDynamic = isDynamic || !len;
-            arrLen.push(len);
-        });
+    const { isArr, type, size } = validType(typeStr);
+    if (type === 'tuple') {
+        throw new Error(`[Error] Illegal type. ${ typeStr }: Tuple should be described by { type, components }.`);
     }
 
+    const arrLen = getArrLen(typeStr);
+    const isDynamic = type === 'string' || arrLen.indexOf(0) !== -1;
+
     let byteLength = size || 0;
     switch (type) {
     case 'number':
@@ -50,6 +46,58 @@ function formatType(typeStr) {
     };
 }
 
+function formatTupleType({ type: typeStr, components }) {
+    const { isArr, type } = validType(typeStr);
+    if (type !== 'tuple' || !isArray(components)) {
+        throw new Error(`[Error] Illegal type. ${ JSON.stringify({ type: typeStr, components }) }: Only tuple should have components.`);
+    }
+
+    const _components = components.map(_c => {
+        return { ...formatType(getType(_c)), name: _c.name };
+    });
+
+    const arrLen = getArrLen(typeStr);
+    return {
+        typeStr,
+        type,
+        byteLength: 0,
+        actualByteLen: 0,
+        isArr,
+        arrLen,
+        isDynamic: arrLen.indexOf(0) !== -1 || !!_components.find(_c => _c.isDynamic),
+        components: _components
+    };
+}
+
+// uint32[2][3] ==> uint32[2], tuple[] ==> tuple
+function getArrItemType(typeObj) {
+    const typeStr = typeObj.typeStr.slice(0, typeObj.typeStr.lastIndexOf('['));
+    if (typeObj.type !== 'tuple') {
+        return formatType(typeStr);
+    }
+
+    const arrLen = typeObj.arrLen.slice(0, -1);
+    return {
+        ...typeObj,
+        typeStr,
+        isArr: !!arrLen.length,
+        arrLen,
+        isDynamic: arrLen.indexOf(0) !== -1 || !!typeObj.components.find(_c => _c.isDynamic)
+    };
+}
+
+// tuple(uint8,string)[] ==> (uint8,string)[]
+function getTypeStr(type) {
+    if (typeof type === 'string') {
+        return type;
+    }
+
+    if (!type.components) {
+        return type.type;
+    }
+    return `(${ type.components.map(getTypeStr).join(',') })${ type.type.slice('tuple'.length) }`;
+}
+
 function validType(typeStr) {
     if (typeof typeStr !== 'string') {
         throw new Error(`[Error] Illegal type ${ JSON.stringify(typeStr) }. Should be type-string, like \'uint32\'.`);
@@ -92,12 +140,30 @@ function validType(typeStr) {
     return { isArr, type, size };
 }
 
+function getArrLen(typeStr) {
+    const arrLen = [];
+    const _typeStrArr = typeStr.split('[').slice(1);
+    _typeStrArr.forEach(_tArr => {
+        const _len = _tArr.match(/\d+/g);
+        arrLen.push(_len && _len[0] ? _len[0] : 0);
+    });
+    return arrLen;
+}
+
+// Tuple keeps its components, others are type-string.
+function getType(param) {
+    if (typeof param === 'string') {
+        return param;
+    }
+    return param && param.components ? param : param.type;
+}
+
 function getTypes(jsonInterface) {
     if (isArray(jsonInterface)) {
         const types = [];
         jsonInterface && jsonInterface.forEach(function (param) {
-            const type = typeof param === 'string' ? param : param.type;
-            validType(type);
+            const type = getType(param);
+            formatType(type);
             types.push(type);
         });
         return types;
@@ -109,10 +175,11 @@ function getTypes(jsonInterface) {
 
     const types = [];
     jsonInterface.inputs && jsonInterface.inputs.forEach(function (param) {
-        validType(param.type);
-        types.push(param.type);
+        const type = getType(param);
+        formatType(type);
+        types.push(type);
     });
     return types;
 }
 
-export { validType, formatType, getTypes };
+export { validType, formatType, getArrItemType, getType, getTypeStr, getTypes };
@@ -1,19 +1,23 @@
 const BigNumber = require('bn.js');
-const blake = require('blakejs/blake2b');
 
-import { checkParams, isHexString, isBase64String } from '~@vite/vitejs-utils';
-import { getOriginalAddressFromAddress, getAddressFromPublicKey, isValidAddress, createAddressByPrivateKey } from '~@vite/vitejs-wallet/address';
+import { waitTimeout } from '~@vite/vitejs-error';
+import { checkParams, isHexString, isBase64String, abortable } from '~@vite/vitejs-utils';
+import { getOriginalAddressFromAddress, getAddressFromPublicKey, isValidAddress, createAddressByPrivateKey, AddressType } from '~@vite/vitejs-wallet/address';
 
 import {
     isRequestBlock, isResponseBlock, isValidAccountBlockWithoutHash, checkAccountBlock,
     Default_Hash, getBlockTypeHex, getHeightHex, getAddressHex, getToAddressHex, getDataHex,
     getAmountHex, getFeeHex, getNonceHex, getPreviousHashHex, getTokenIdHex, getSendBlockHashHex,
-    getAccountBlockHash, signAccountBlock, createContractAddress
+    getAccountBlockHash, signAccountBlock, createContractAddress, AccountBlockStatus, AccountBlock_Envelope_Version, isSigner
 } from './utils';
-import { Address, Hex, Base64, BigInt, Uint64, BlockType, TokenId, AccountBlockBlock, ProviderType, AccountBlockType } from './type';
+import { getPoWNonceHash, RPCPoWSolver } from './pow';
+import { Address, Hex, Base64, BigInt, Uint64, BlockType, TokenId, AccountBlockBlock, ProviderType, AccountBlockType, AccountBlockReceipt, AccountBlockEnvelope, PoWSolverType, SignerType, RPCRequestOptions } from './type';
 
 
 class AccountBlockClass {
+    // Envelope can be an object, a JSON string or a Base64 string.
+    static fromJSON = fromJSON;
+
     blockType: BlockType;
     address: Address;
     fee?: BigInt;
@@ -30,7 +34,9 @@ class AccountBlockClass {
     _toAddress?: Address;
 
     private privateKey: Hex
+    private signer: SignerType
     private provider: ProviderType
+    private powSolver: PoWSolverType
 
     constructor({ blockType, address, fee, data, sendBlockHash, amount, toAddress, tokenId }: {
         blockType: BlockType;
@@ -41,7 +47,7 @@ class AccountBlockClass {
         amount?: BigInt;
         toAddress?: Address;
         tokenId?: TokenId;
-    }, provider?: ProviderType, privateKey?: Hex) {
+    }, provider?: ProviderType, privateKey?: Hex | SignerType) {
         const err = checkParams({ blockType, address }, [ 'blockType', 'address' ], [ {
             name: 'blockType',
             func: _b => BlockType[_b],
@@ -64,7 +70,11 @@ class AccountBlockClass {
         this._toAddress = toAddress;
 
         provider && this.setProvider(provider);
-        privateKey && this.setPrivateKey(privateKey);
+        if (typeof privateKey === 'string') {
+            this.setPrivateKey(privateKey);
+        } else if (privateKey) {
+            this.setSigner(privateKey);
+        }
     }
 
     get accountBlock(): AccountBlockBlock {
@@ -201,6 +211,26 @@ class AccountBlockClass {
         }
 
         this.privateKey = privateKey;
+        this.signer = null;
+        return this;
+    }
+
+    setSigner(signer: SignerType): AccountBlockClass {
+        const err = checkParams({ signer }, ['signer'], [{
+            name: 'signer',
+            func: isSigner
+        }]);
+        if (err) {
+            throw err;
+        }
+
+        this.signer = signer;
+        this.privateKey = null;
+        return this;
+    }
+
+    setPoWSolver(powSolver: PoWSolverType): AccountBlockClass {
+        this.powSolver = powSolver;
         return this;
     }
 
@@ -247,12 +277,7 @@ class AccountBlockClass {
             throw err;
         }
 
-        const result: {
-            requiredQuota: Uint64;
-            difficulty: BigInt;
-            qc: BigInt;
-            isCongestion: Boolean;
-        } = await this.provider.request('ledger_getPoWDifficulty', {
+        const result = await this.provider.request('ledger_getPoWDifficulty', {
             address: this.address,
             previousHash: this.previousHash,
             blockType: this.blockType,
@@ -283,10 +308,20 @@ class AccountBlockClass {
             throw err;
         }
 
-        const getNonceHashBuffer = Buffer.from(this.originalAddress + this.previousHash, 'hex');
-        const getNonceHash = blake.blake2bHex(getNonceHashBuffer, null, 32);
+        // ViteAPI holds its own PoWSolver, use it when this accountBlock doesn't have one.
+        if (!this.powSolver && this.provider && this.provider['getNonce']) {
+            return this.provider['getNonce']({
+                difficulty: this.difficulty,
+                previousHash: this.previousHash,
+                address: this.address
+            });
+        }
 
-        const nonce: Base64 = this.provider.request('util_getPoWNonce', this.difficulty, getNonceHash);
+        const powSolver: PoWSolverType = this.powSolver || new RPCPoWSolver(this.provider);
+        const nonce: Base64 = await powSolver.getNonce({
+            difficulty: this.difficulty,
+            dataHash: getPoWNonceHash({ address: this.address, previousHash: this.previousHash })
+        });
         return nonce;
     }
 
@@ -368,6 +403,38 @@ class AccountBlockClass {
         return this;
     }
 
+    // Signer can be a privateKey, or a Signer such as a signing service.
+    async signBySigner(signer: Hex | SignerType = this.signer || this.privateKey): Promise<AccountBlockClass> {
+        if (!signer || typeof signer === 'string') {
+            return this.sign(signer as Hex);
+        }
+
+        const address = await signer.getAddress();
+        if (address !== this.address) {
+            throw new Error('Signer is wrong');
+        }
+
+        // Such as RemoteSigner, it checks the whole accountBlock before signing.
+        if (signer.signAccountBlock) {
+            const result = await signer.signAccountBlock(this.toJSON());
+            this.setPublicKey(result.publicKey);
+            this.setSignature(result.signature);
+            return this;
+        }
+
+        const err = checkAccountBlock(this.accountBlock, AccountBlockStatus.Before_Signature);
+        if (err) {
+            throw err;
+        }
+
+        const publicKey = await signer.getPublicKey();
+        const signature = await signer.signHash(this.hash);
+        // Hex may be taken as Base64 by the setters, so set them in Base64.
+        this.setPublicKey(Buffer.from(publicKey, 'hex').toString('base64'));
+        this.setSignature(Buffer.from(signature, 'hex').toString('base64'));
+        return this;
+    }
+
     async send(): Promise<AccountBlockBlock> {
         const err = checkAccountBlock(this.accountBlock);
         if (err) {
@@ -383,20 +450,184 @@ class AccountBlockClass {
         }
     }
 
-    async sendByPoW(privateKey: Hex = this.privateKey): Promise<AccountBlockBlock> {
+    async sendByPoW(signer: Hex | SignerType = this.signer || this.privateKey): Promise<AccountBlockBlock> {
         await this.PoW();
-        return this.sign(privateKey).send();
+        await this.signBySigner(signer);
+        return this.send();
     }
 
-    async autoSendByPoW(privateKey: Hex = this.privateKey): Promise<AccountBlockBlock> {
-        await this.autoSetPreviousAccountBlock();
-        await this.PoW();
-        return this.sign(privateKey).send();
+    // Options are { signal, timeout }. Once cancelled, the accountBlock won't be sent, but a running PoW isn't stopped.
+    async autoSendByPoW(signer: Hex | SignerType = this.signer || this.privateKey, options: RPCRequestOptions = {}): Promise<AccountBlockBlock> {
+        return abortable(async throwIfAborted => {
+            await this.autoSetPreviousAccountBlock();
+            throwIfAborted();
+            await this.PoW();
+            throwIfAborted();
+            await this.signBySigner(signer);
+            throwIfAborted();
+            return this.send();
+        }, options);
     }
 
-    async autoSend(privateKey: Hex = this.privateKey): Promise<AccountBlockBlock> {
+    async autoSend(signer: Hex | SignerType = this.signer || this.privateKey): Promise<AccountBlockBlock> {
         await this.autoSetPreviousAccountBlock();
-        return this.sign(privateKey).send();
+        await this.signBySigner(signer);
+        return this.send();
+    }
+
+    // timeout 0 means waiting until received
+    async waitForReceive({ timeout = 0, interval = 2000 }: {
+        timeout?: number; interval?: number;
+    } = {}): Promise<AccountBlockReceipt> {
+        this.checkBeforeWaiting();
+
+        return this.pollUntil(async () => {
+            const accountBlock: AccountBlockType = await this.provider.request('ledger_getAccountBlockByHash', this.hash);
+            if (!accountBlock || !accountBlock.receiveBlockHash) {
+                return null;
+            }
+            return this.getReceipt(accountBlock);
+        }, { timeout, interval });
+    }
+
+    // Contract call also waits for the response of contract, which may be ResponseFail.
+    async waitForConfirmation({ confirmations = 1, timeout = 0, interval = 2000 }: {
+        confirmations?: number; timeout?: number; interval?: number;
+    } = {}): Promise<AccountBlockReceipt> {
+        this.checkBeforeWaiting();
+
+        const isContractCall = this.isRequestBlock && isValidAddress(this.toAddress) === AddressType.Contract;
+        return this.pollUntil(async () => {
+            const accountBlock: AccountBlockType = await this.provider.request('ledger_getAccountBlockByHash', this.hash);
+            if (!accountBlock || Number(accountBlock.confirmations || 0) < confirmations) {
+                return null;
+            }
+            if (isContractCall && !accountBlock.receiveBlockHash) {
+                return null;
+            }
+            return this.getReceipt(accountBlock);
+        }, { timeout, interval });
+    }
+
+    // Export a versioned envelope, which can be signed offline by signAccountBlock.
+    toJSON(): AccountBlockEnvelope {
+        const accountBlock: AccountBlockBlock = this.accountBlock;
+        for (const key in accountBlock) {
+            if (accountBlock[key] === null || accountBlock[key] === undefined) {
+                delete accountBlock[key];
+            }
+        }
+
+        let status: AccountBlockStatus = AccountBlockStatus.Before_Hash;
+        if (accountBlock.signature || accountBlock.publicKey) {
+            status = AccountBlockStatus.Complete;
+        } else if (accountBlock.hash) {
+            status = AccountBlockStatus.Before_Signature;
+        }
+
+        const err = checkAccountBlock(accountBlock, status);
+        if (err) {
+            throw err;
+        }
+
+        return {
+            version: AccountBlock_Envelope_Version,
+            status: AccountBlockStatus[status] as AccountBlockEnvelope['status'],
+            accountBlock
+        };
+    }
+
+    toBase64(): Base64 {
+        return Buffer.from(JSON.stringify(this.toJSON())).toString('base64');
+    }
+
+    private checkBeforeWaiting() {
+        const err = checkParams({ hash: this.hash, provider: this.provider }, [ 'hash', 'provider' ]);
+        if (err) {
+            throw err;
+        }
+        if (!this.isRequestBlock) {
+            throw new Error('[Error] Only request accountBlock can be received.');
+        }
+    }
+
+    private async getReceipt(accountBlock: AccountBlockType): Promise<AccountBlockReceipt> {
+        const receiveAccountBlock: AccountBlockType = accountBlock.receiveBlockHash
+            ? await this.provider.request('ledger_getAccountBlockByHash', accountBlock.receiveBlockHash)
+            : null;
+
+        return {
+            status: receiveAccountBlock && receiveAccountBlock.blockType === BlockType.ResponseFail ? 'responseFail' : 'success',
+            accountBlock,
+            receiveAccountBlock
+        };
+    }
+
+    private pollUntil(check: () => Promise<AccountBlockReceipt>, { timeout, interval }: {
+        timeout: number; interval: number;
+    }): Promise<AccountBlockReceipt> {
+        const startTime = new Date().getTime();
+
+        return new Promise((res, rej) => {
+            const loop = () => {
+                check().then(result => {
+                    if (result) {
+                        res(result);
+                        return;
+                    }
+                    if (timeout && new Date().getTime() - startTime + interval > timeout) {
+                        rej(waitTimeout);
+                        return;
+                    }
+                    setTimeout(loop, interval);
+                }).catch(rej);
+            };
+            loop();
+        });
+    }
+}
+
+function fromJSON(envelope: AccountBlockEnvelope | string, provider?: ProviderType): AccountBlockClass {
+    const _envelope: AccountBlockEnvelope = typeof envelope === 'string' ? parseEnvelope(envelope) : envelope;
+
+    const err = checkParams(_envelope, [ 'version', 'status', 'accountBlock' ], [ {
+        name: 'version',
+        func: _v => _v === AccountBlock_Envelope_Version,
+        msg: `Don\'t support envelope version ${ _envelope && _envelope.version }`
+    }, {
+        name: 'status',
+        func: _s => typeof _s === 'string' && AccountBlockStatus[_s] !== undefined
+    } ]);
+    if (err) {
+        throw err;
+    }
+
+    const { accountBlock, status } = _envelope;
+    const checkError = checkAccountBlock(accountBlock, AccountBlockStatus[status]);
+    if (checkError) {
+        throw checkError;
+    }
+
+    const { blockType, address, fee, data, sendBlockHash, amount, toAddress, tokenId } = accountBlock;
+    const block = new AccountBlockClass({ blockType, address, fee, data, sendBlockHash, amount, toAddress, tokenId }, provider);
+    block.setHeight(accountBlock.height).setPreviousHash(accountBlock.previousHash);
+    accountBlock.difficulty && block.setDifficulty(accountBlock.difficulty);
+    accountBlock.nonce && block.setNonce(accountBlock.nonce);
+    accountBlock.publicKey && block.setPublicKey(accountBlock.publicKey);
+    accountBlock.signature && block.setSignature(accountBlock.signature);
+
+    if (accountBlock.hash && accountBlock.hash !== block.hash) {
+        throw new Error('[Error] Hash of accountBlock is wrong.');
+    }
+    return block;
+}
+
+function parseEnvelope(str: string): AccountBlockEnvelope {
+    const json = isBase64String(str) ? Buffer.from(str, 'base64').toString() : str;
+    try {
+        return JSON.parse(json);
+    } catch (err) {
+        throw new Error('[Error] Illegal envelope, it should be a JSON string or Base64 string.');
     }
 }
 
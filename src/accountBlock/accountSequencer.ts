@@ -0,0 +1,86 @@
+import { checkParams } from '~@vite/vitejs-utils';
+
+import AccountBlock from './accountBlock';
+
+import { Address, ProviderType, AccountBlockBlock, AccountBlockType } from './type';
+
+// Send accountBlocks of one address one by one, and chain each accountBlock to the previous one built locally,
+// so that accountBlocks sent concurrently won't get the same height and previousHash.
+export class AccountSequencer {
+    private provider: ProviderType
+    private queues: { [address: string]: Promise<any> }
+    private previousAccountBlocks: { [address: string]: AccountBlockType }
+
+    constructor(provider: ProviderType) {
+        const err = checkParams({ provider }, ['provider']);
+        if (err) {
+            throw err;
+        }
+
+        this.provider = provider;
+        this.queues = {};
+        this.previousAccountBlocks = {};
+    }
+
+    send(accountBlock: AccountBlock, { usePoW = true, sign }: {
+        usePoW?: boolean; sign?: Function;
+    } = {}): Promise<AccountBlockBlock> {
+        const err = checkParams({ accountBlock }, ['accountBlock'], [{
+            name: 'accountBlock',
+            func: _a => _a instanceof AccountBlock
+        }]);
+        if (err) {
+            return Promise.reject(err);
+        }
+
+        const address = accountBlock.address;
+        const previous = this.queues[address] || Promise.resolve();
+
+        const result = previous.then(() => this.sendAccountBlock(accountBlock, { usePoW, sign }));
+        const queue = result.catch(() => null);
+        this.queues[address] = queue;
+
+        queue.then(() => {
+            if (this.queues[address] === queue) {
+                delete this.queues[address];
+            }
+        });
+        return result;
+    }
+
+    // Drop the local previous accountBlock, the next accountBlock of this address will sync from node.
+    reset(address?: Address) {
+        if (address) {
+            delete this.previousAccountBlocks[address];
+            return;
+        }
+        this.previousAccountBlocks = {};
+    }
+
+    private async sendAccountBlock(accountBlock: AccountBlock, { usePoW, sign }: {
+        usePoW: boolean; sign?: Function;
+    }): Promise<AccountBlockBlock> {
+        const address = accountBlock.address;
+        accountBlock.setProvider(this.provider);
+
+        try {
+            const previousAccountBlock = this.previousAccountBlocks[address] || await accountBlock.getPreviousAccountBlock();
+            accountBlock.setPreviousAccountBlock(previousAccountBlock);
+
+            usePoW && await accountBlock.PoW();
+            if (sign) {
+                await sign(accountBlock);
+            } else {
+                await accountBlock.signBySigner();
+            }
+
+            const result = await accountBlock.send();
+            this.previousAccountBlocks[address] = accountBlock.accountBlock as AccountBlockType;
+            return result;
+        } catch (err) {
+            // The accountBlock may be rejected because the local chain is out of date, resync from node next time.
+            this.reset(address);
+            throw err;
+        }
+    }
+}
@@ -3,12 +3,22 @@ import { checkParams, isObject } from '~@vite/vitejs-utils';
 import _AccountBlock from './accountBlock';
 import _Transaction from './transaction';
 import { ReceiveAccountBlockTask as _ReceiveAccountBlockTask } from './receiveAccountBlockTask';
+import { AccountSequencer as _AccountSequencer } from './accountSequencer';
+import { ReceiverManager as _ReceiverManager } from './receiverManager';
 import * as _utils from './utils';
+import * as _pow from './pow';
+import * as _signer from './signer';
+import * as _signingServer from './signingServer';
 
 export const AccountBlock = _AccountBlock;
 export const Transaction = _Transaction;
 export const ReceiveAccountBlockTask = _ReceiveAccountBlockTask;
+export const AccountSequencer = _AccountSequencer;
+export const ReceiverManager = _ReceiverManager;
 export const utils = _utils;
+export const pow = _pow;
+export const signer = _signer;
+export const signingServer = _signingServer;
 
 export function createAccountBlock(methodName: string, params: any) {
     const err = checkParams({ methodName, params }, [ 'methodName', 'params' ], [ {
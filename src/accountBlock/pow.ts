@@ -0,0 +1,365 @@
+const BigNumber = require('bn.js');
+const blake = require('blakejs/blake2b');
+
+import { checkParams, isHexString, isNonNegativeInteger } from '~@vite/vitejs-utils';
+import { getOriginalAddressFromAddress } from '~@vite/vitejs-wallet/address';
+
+import { Address, Hex, Base64, BigInt, ProviderType, PoWSolverType } from './type';
+
+declare const window;
+declare const Worker;
+declare const Blob;
+declare const URL;
+
+const Two_64 = new BigNumber(1).shln(64);
+
+
+export function getPoWNonceHash({ address, previousHash }: {
+    address: Address;
+    previousHash: Hex;
+}): Hex {
+    const originalAddress = getOriginalAddressFromAddress(address);
+    const getNonceHashBuffer = Buffer.from(originalAddress + previousHash, 'hex');
+    return blake.blake2bHex(getNonceHashBuffer, null, 32);
+}
+
+// target = 2^64 - 2^64 / difficulty, compared with the little-endian uint64 of blake2b(nonce + dataHash, 8)
+export function getPoWTarget(difficulty: BigInt): Hex {
+    const err = checkParams({ difficulty }, ['difficulty'], [{
+        name: 'difficulty',
+        func: _d => isNonNegativeInteger(_d) && _d !== '0'
+    }]);
+    if (err) {
+        throw err;
+    }
+
+    const target = Two_64.sub(Two_64.div(new BigNumber(difficulty)));
+    return target.toString(16, 16);
+}
+
+export function checkPoWNonce({ difficulty, nonce, dataHash }: {
+    difficulty: BigInt;
+    nonce: Base64;
+    dataHash: Hex;
+}): Boolean {
+    const err = checkParams({ difficulty, nonce, dataHash }, [ 'difficulty', 'nonce', 'dataHash' ], [{
+        name: 'dataHash',
+        func: _d => isHexString(_d) && _d.length === 64
+    }]);
+    if (err) {
+        throw err;
+    }
+
+    const nonceBuffer = Buffer.from(nonce, 'base64');
+    if (nonceBuffer.length !== 8) {
+        return false;
+    }
+
+    const out = blake.blake2b(Buffer.concat([ nonceBuffer, Buffer.from(dataHash, 'hex') ]), null, 8);
+    const value = new BigNumber(Buffer.from(out).reverse().toString('hex'), 16);
+    return value.cmp(new BigNumber(getPoWTarget(difficulty), 16)) >= 0;
+}
+
+export async function calcPoWNonce({ difficulty, dataHash, useWorker = false, batchSize = 100000 }: {
+    difficulty: BigInt;
+    dataHash: Hex;
+    useWorker?: boolean;
+    batchSize?: number;
+}): Promise<Base64> {
+    const err = checkParams({ difficulty, dataHash }, [ 'difficulty', 'dataHash' ], [{
+        name: 'dataHash',
+        func: _d => isHexString(_d) && _d.length === 64
+    }]);
+    if (err) {
+        throw err;
+    }
+
+    const target = getPoWTarget(difficulty);
+    const task = {
+        targetHi: parseInt(target.slice(0, 8), 16),
+        targetLo: parseInt(target.slice(8), 16),
+        dataHash,
+        seed: Buffer.from(blake.blake2b(`${ Math.random() }${ Date.now() }`, null, 8)).toString('hex'),
+        batchSize
+    };
+
+    if (useWorker) {
+        const worker = createPoWWorker();
+        if (worker) {
+            return worker(task);
+        }
+    }
+
+    // Search in batches and yield between them, so the event loop is not blocked for the whole search.
+    return new Promise((res, rej) => {
+        let seed = task.seed;
+        const loop = () => {
+            try {
+                const result = searchPoWNonce({ ...task, seed });
+                if (result.nonce) {
+                    return res(Buffer.from(result.nonce, 'hex').toString('base64'));
+                }
+                seed = result.seed;
+                setTimeout(loop, 0);
+            } catch (err) {
+                rej(err);
+            }
+        };
+        loop();
+    });
+}
+
+
+class RPCPoWSolverClass implements PoWSolverType {
+    private provider: ProviderType
+
+    constructor(provider: ProviderType) {
+        this.provider = provider;
+    }
+
+    async getNonce({ difficulty, dataHash }: {
+        difficulty: BigInt;
+        dataHash: Hex;
+    }): Promise<Base64> {
+        return this.provider.request('util_getPoWNonce', difficulty, dataHash);
+    }
+}
+
+class LocalPoWSolverClass implements PoWSolverType {
+    readonly useWorker: boolean
+    readonly batchSize: number
+
+    constructor({ useWorker = false, batchSize = 100000 }: {
+        useWorker?: boolean;
+        batchSize?: number;
+    } = {}) {
+        this.useWorker = useWorker;
+        this.batchSize = batchSize;
+    }
+
+    async getNonce({ difficulty, dataHash }: {
+        difficulty: BigInt;
+        dataHash: Hex;
+    }): Promise<Base64> {
+        return calcPoWNonce({
+            difficulty,
+            dataHash,
+            useWorker: this.useWorker,
+            batchSize: this.batchSize
+        });
+    }
+}
+
+export const RPCPoWSolver = RPCPoWSolverClass;
+export const LocalPoWSolver = LocalPoWSolverClass;
+
+
+function createPoWWorker(): (task: Object) => Promise<Base64> {
+    const source = `var searchPoWNonce = ${ searchPoWNonce.toString() };`;
+
+    if (typeof window !== 'undefined') {
+        if (typeof Worker === 'undefined' || typeof Blob === 'undefined' || typeof URL === 'undefined') {
+            return null;
+        }
+
+        const script = `${ source }
+self.onmessage = function (e) {
+    var task = e.data;
+    var result = searchPoWNonce(task);
+    while (!result.nonce) {
+        task.seed = result.seed;
+        result = searchPoWNonce(task);
+    }
+    self.postMessage(result.nonce);
+};`;
+
+        return task => new Promise((res, rej) => {
+            const url = URL.createObjectURL(new Blob([script], { type: 'application/javascript' }));
+            const worker = new Worker(url);
+            const end = () => {
+                worker.terminate();
+                URL.revokeObjectURL(url);
+            };
+            worker.onmessage = e => {
+                end();
+                res(Buffer.from(e.data, 'hex').toString('base64'));
+            };
+            worker.onerror = err => {
+                end();
+                rej(err);
+            };
+            worker.postMessage(task);
+        });
+    }
+
+    let workerThreads;
+    try {
+        // Keep bundlers away from worker_threads, it only exists in Node.
+        workerThreads = eval('require')('worker_threads');
+    } catch (err) {
+        return null;
+    }
+
+    const script = `${ source }
+var threads = require('worker_threads');
+var task = threads.workerData;
+var result = searchPoWNonce(task);
+while (!result.nonce) {
+    task.seed = result.seed;
+    result = searchPoWNonce(task);
+}
+threads.parentPort.postMessage(result.nonce);`;
+
+    return task => new Promise((res, rej) => {
+        const worker = new workerThreads.Worker(script, { eval: true, workerData: task });
+        worker.once('message', nonce => {
+            worker.terminate();
+            res(Buffer.from(nonce, 'hex').toString('base64'));
+        });
+        worker.once('error', rej);
+    });
+}
+
+// Self-contained, it is stringified into PoW workers: do not reference anything outside of this function.
+// It runs blake2b (outlen 8) over nonce(8 bytes) + dataHash(32 bytes) for at most batchSize nonces.
+function searchPoWNonce({ targetHi, targetLo, dataHash, seed, batchSize }) {
+    const IV = [
+        0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372, 0x5f1d36f1, 0xa54ff53a,
+        0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c, 0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19
+    ];
+    const SIGMA = [
+        0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15,
+        14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3,
+        11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4,
+        7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8,
+        9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13,
+        2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9,
+        12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11,
+        13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10,
+        6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5,
+        10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0,
+        0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15,
+        14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3
+    ];
+
+    const readUint32LE = function (hex, i) {
+        return (parseInt(hex.substr(i * 8 + 6, 2), 16) << 24
+            | parseInt(hex.substr(i * 8 + 4, 2), 16) << 16
+            | parseInt(hex.substr(i * 8 + 2, 2), 16) << 8
+            | parseInt(hex.substr(i * 8, 2), 16)) >>> 0;
+    };
+    const toHexLE = function (n) {
+        let hex = '';
+        for (let i = 0; i < 4; i++) {
+            const b = (n >>> (i * 8)) & 0xff;
+            hex += (b < 16 ? '0' : '') + b.toString(16);
+        }
+        return hex;
+    };
+
+    const v = new Uint32Array(32);
+    const m = new Uint32Array(32);
+    for (let i = 0; i < 8; i++) {
+        m[i + 2] = readUint32LE(dataHash, i);
+    }
+    let nonceLo = readUint32LE(seed, 0);
+    let nonceHi = readUint32LE(seed, 1);
+
+    // 64-bit values are kept as [lo, hi] pairs of uint32
+    const add64 = function (a, b) {
+        const lo = v[a] + v[b];
+        let hi = v[a + 1] + v[b + 1];
+        if (lo >= 0x100000000) {
+            hi++;
+        }
+        v[a] = lo;
+        v[a + 1] = hi;
+    };
+    const add64m = function (a, x) {
+        const lo = v[a] + m[x];
+        let hi = v[a + 1] + m[x + 1];
+        if (lo >= 0x100000000) {
+            hi++;
+        }
+        v[a] = lo;
+        v[a + 1] = hi;
+    };
+    const G = function (a, b, c, d, ix, iy) {
+        add64(a, b);
+        add64m(a, ix);
+
+        let xor0 = v[d] ^ v[a];
+        let xor1 = v[d + 1] ^ v[a + 1];
+        v[d] = xor1;
+        v[d + 1] = xor0;
+
+        add64(c, d);
+
+        xor0 = v[b] ^ v[c];
+        xor1 = v[b + 1] ^ v[c + 1];
+        v[b] = (xor0 >>> 24) ^ (xor1 << 8);
+        v[b + 1] = (xor1 >>> 24) ^ (xor0 << 8);
+
+        add64(a, b);
+        add64m(a, iy);
+
+        xor0 = v[d] ^ v[a];
+        xor1 = v[d + 1] ^ v[a + 1];
+        v[d] = (xor0 >>> 16) ^ (xor1 << 16);
+        v[d + 1] = (xor1 >>> 16) ^ (xor0 << 16);
+
+        add64(c, d);
+
+        xor0 = v[b] ^ v[c];
+        xor1 = v[b + 1] ^ v[c + 1];
+        v[b] = (xor1 >>> 31) ^ (xor0 << 1);
+        v[b + 1] = (xor0 >>> 31) ^ (xor1 << 1);
+    };
+
+    for (let n = 0; n < batchSize; n++) {
+        m[0] = nonceLo;
+        m[1] = nonceHi;
+
+        for (let j = 0; j < 16; j++) {
+            v[j] = IV[j];
+            v[j + 16] = IV[j];
+        }
+        // Parameter block: digest length 8, fanout 1, depth 1
+        v[0] ^= 0x01010008;
+        // Message length 40 bytes, final block
+        v[24] ^= 40;
+        v[28] = ~v[28];
+        v[29] = ~v[29];
+
+        for (let r = 0; r < 12; r++) {
+            const s = r * 16;
+            G(0, 8, 16, 24, SIGMA[s] * 2, SIGMA[s + 1] * 2);
+            G(2, 10, 18, 26, SIGMA[s + 2] * 2, SIGMA[s + 3] * 2);
+            G(4, 12, 20, 28, SIGMA[s + 4] * 2, SIGMA[s + 5] * 2);
+            G(6, 14, 22, 30, SIGMA[s + 6] * 2, SIGMA[s + 7] * 2);
+            G(0, 10, 20, 30, SIGMA[s + 8] * 2, SIGMA[s + 9] * 2);
+            G(2, 12, 22, 24, SIGMA[s + 10] * 2, SIGMA[s + 11] * 2);
+            G(4, 14, 16, 26, SIGMA[s + 12] * 2, SIGMA[s + 13] * 2);
+            G(6, 8, 18, 28, SIGMA[s + 14] * 2, SIGMA[s + 15] * 2);
+        }
+
+        const outLo = (IV[0] ^ 0x01010008 ^ v[0] ^ v[16]) >>> 0;
+        const outHi = (IV[1] ^ v[1] ^ v[17]) >>> 0;
+        if (outHi > targetHi || (outHi === targetHi && outLo >= targetLo)) {
+            return {
+                nonce: toHexLE(nonceLo) + toHexLE(nonceHi),
+                seed: null
+            };
+        }
+
+        nonceLo = (nonceLo + 1) >>> 0;
+        if (nonceLo === 0) {
+            nonceHi = (nonceHi + 1) >>> 0;
+        }
+    }
+
+    return {
+        nonce: null,
+        seed: toHexLE(nonceLo) + toHexLE(nonceHi)
+    };
+}
@@ -2,8 +2,9 @@ import { isValidAddress } from '~@vite/vitejs-wallet/address';
 import { checkParams, isHexString } from '~@vite/vitejs-utils';
 
 import Transaction from './transaction';
+import { isSigner } from './utils';
 
-import { Address, Hex, ProviderType, AccountBlockBlock } from './type';
+import { Address, Hex, ProviderType, AccountBlockBlock, PoWSolverType, SignerType } from './type';
 
 export class ReceiveAccountBlockTask {
     address: Address;
@@ -11,26 +12,31 @@ export class ReceiveAccountBlockTask {
     private provider: ProviderType
     private sign: Function | undefined | null
     private privateKey: Hex | undefined | null
+    private signer: SignerType | undefined | null
+    private powSolver: PoWSolverType | undefined | null
     private _transaction: Transaction
     private _timer: any
     private successCB: Function
     private errorCB: Function
 
-    constructor({ address, provider, privateKey, sign }: {
-        address: Address; provider: ProviderType; privateKey?: Hex; sign?: Function;
+    constructor({ address, provider, privateKey, sign, signer, powSolver }: {
+        address: Address; provider: ProviderType; privateKey?: Hex; sign?: Function; signer?: SignerType; powSolver?: PoWSolverType;
     }) {
-        const err = checkParams({ address, provider, privateKey }, [ 'address', 'provider' ], [ {
+        const err = checkParams({ address, provider, privateKey, signer }, [ 'address', 'provider' ], [ {
             name: 'address',
             func: isValidAddress
         }, {
             name: 'privateKey',
             func: function (str: string | undefined | null): Boolean {
-                if (!sign && !privateKey) return false;
+                if (!sign && !privateKey && !signer) return false;
                 if (str === undefined || str === null) {
                     return true;
                 }
                 return isHexString(str);
             }
+        }, {
+            name: 'signer',
+            func: isSigner
         } ]);
         if (err) {
             throw err;
@@ -41,12 +47,16 @@ export class ReceiveAccountBlockTask {
         this.provider = provider;
         this.sign = sign;
         this.privateKey = privateKey;
+        this.signer = signer;
+        this.powSolver = powSolver;
 
         this._transaction = new Transaction(address);
         this._transaction.setProvider(provider);
 
         if (privateKey) {
             this._transaction.setPrivateKey(privateKey);
+        } else if (signer) {
+            this._transaction.setSigner(signer);
         }
 
         this._timer = null;
@@ -172,8 +182,9 @@ export class ReceiveAccountBlockTask {
 
     private async receiveAccountBlockByPrevious({ sendBlockHash, previousAccountBlock }) {
         const accountBlock = this._transaction.receive({ sendBlockHash });
+        this.powSolver && accountBlock.setPoWSolver(this.powSolver);
 
-        if (this.privateKey) {
+        if (this.privateKey || this.signer) {
             if (!previousAccountBlock) {
                 return accountBlock.autoSendByPoW();
             }
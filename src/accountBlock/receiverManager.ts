@@ -0,0 +1,433 @@
+const BigNumber = require('bn.js');
+
+import { isValidAddress } from '~@vite/vitejs-wallet/address';
+import { checkParams, isArray, isHexString, isNonNegativeInteger } from '~@vite/vitejs-utils';
+
+import Transaction from './transaction';
+import { isSigner } from './utils';
+
+import { Address, Hex, BigInt, TokenId, ProviderType, AccountBlockBlock, AccountBlockType, PoWSolverType, SignerType } from './type';
+
+type ReceiverAccount = {
+    address: Address;
+    transaction: Transaction;
+    unreceivedBlocks: AccountBlockType[];
+    isQueued: boolean;
+    isRunning: boolean;
+    isDirty: boolean;
+    failures: number;
+    retryTimer: any;
+    event: any;
+}
+
+type ReceiverFilter = {
+    tokenIds?: TokenId[];
+    minAmount?: BigInt | { [tokenId: string]: BigInt };
+    blacklist?: Address[];
+}
+
+// Receive accountBlocks for many addresses. Unreceived blocks are polled in batches, or subscribed,
+// then addresses are handled with bounded concurrency. An address backs off exponentially after errors.
+class ReceiverManagerClass {
+    private provider: ProviderType
+    private powSolver: PoWSolverType | undefined | null
+    private concurrency: number
+    private pageSize: number
+    private batchSize: number
+    private interval: number
+    private useSubscription: boolean
+    private backoff: { delay: number; maxDelay: number }
+    private filter: ReceiverFilter
+    private accounts: { [address: string]: ReceiverAccount }
+    private queue: ReceiverAccount[]
+    private runningCount: number
+    private isStarted: boolean
+    private startId: number
+    private _timer: any
+    private successCB: Function
+    private errorCB: Function
+
+    constructor({
+        provider, powSolver, concurrency = 5, pageSize = 10, batchSize = 100, interval = 3000,
+        useSubscription = false, backoff = {}, filter = {}
+    }: {
+        provider: ProviderType; powSolver?: PoWSolverType; concurrency?: number; pageSize?: number; batchSize?: number; interval?: number;
+        useSubscription?: boolean; backoff?: { delay?: number; maxDelay?: number }; filter?: ReceiverFilter;
+    }) {
+        const isPositiveInteger = _n => isNonNegativeInteger(_n) && _n > 0;
+        const err = checkParams({ provider, concurrency, pageSize, batchSize, filter }, [ 'provider', 'concurrency', 'pageSize', 'batchSize' ], [ {
+            name: 'concurrency',
+            func: isPositiveInteger
+        }, {
+            name: 'pageSize',
+            func: isPositiveInteger
+        }, {
+            name: 'batchSize',
+            func: isPositiveInteger
+        }, {
+            name: 'filter',
+            func: _f => (!_f.tokenIds || isArray(_f.tokenIds)) && (!_f.blacklist || isArray(_f.blacklist))
+        } ]);
+        if (err) {
+            throw err;
+        }
+
+        this.provider = provider;
+        this.powSolver = powSolver;
+        this.concurrency = concurrency;
+        this.pageSize = pageSize;
+        this.batchSize = batchSize;
+        this.interval = interval;
+        this.useSubscription = useSubscription;
+        this.backoff = { delay: backoff.delay || 1000, maxDelay: backoff.maxDelay || 60000 };
+        this.filter = filter;
+
+        this.accounts = {};
+        this.queue = [];
+        this.runningCount = 0;
+        this.isStarted = false;
+        this.startId = 0;
+        this._timer = null;
+
+        this.successCB = null;
+        this.errorCB = null;
+    }
+
+    addAccount({ address, privateKey, signer }: {
+        address: Address; privateKey?: Hex; signer?: SignerType;
+    }) {
+        const err = checkParams({ address, privateKey, signer }, ['address'], [ {
+            name: 'address',
+            func: isValidAddress
+        }, {
+            name: 'privateKey',
+            func: (_p: Hex) => (_p ? isHexString(_p) : !!signer)
+        }, {
+            name: 'signer',
+            func: isSigner
+        } ]);
+        if (err) {
+            throw err;
+        }
+
+        this.removeAccount(address);
+
+        const transaction = new Transaction(address);
+        transaction.setProvider(this.provider);
+        privateKey ? transaction.setPrivateKey(privateKey) : transaction.setSigner(signer);
+
+        const account: ReceiverAccount = {
+            address,
+            transaction,
+            unreceivedBlocks: null,
+            isQueued: false,
+            isRunning: false,
+            isDirty: false,
+            failures: 0,
+            retryTimer: null,
+            event: null
+        };
+        this.accounts[address] = account;
+
+        if (this.isStarted) {
+            this.useSubscription && this.subscribe(account);
+            this.enqueue(account);
+        }
+        return this;
+    }
+
+    removeAccount(address: Address) {
+        const account = this.accounts[address];
+        if (!account) {
+            return this;
+        }
+
+        delete this.accounts[address];
+        this.clearAccount(account);
+        this.queue = this.queue.filter(_a => _a !== account);
+        return this;
+    }
+
+    async start() {
+        if (this.isStarted) {
+            return;
+        }
+        this.isStarted = true;
+
+        // stop() and start() may be called while awaiting, then this start is outdated and the new one polls.
+        const startId = ++this.startId;
+        const isCurrent = () => this.isStarted && startId === this.startId;
+
+        if (this.useSubscription) {
+            await Promise.all(Object.values(this.accounts).map(account => this.subscribe(account)));
+            if (!isCurrent()) {
+                return;
+            }
+        }
+
+        // Unreceived blocks before subscribed are got by polling once.
+        await this.poll();
+        if (this.useSubscription || !isCurrent()) {
+            return;
+        }
+
+        const toPoll = () => {
+            this._timer = setTimeout(async () => {
+                await this.poll();
+                isCurrent() && toPoll();
+            }, this.interval);
+        };
+        toPoll();
+    }
+
+    // Accountblocks being received are not stopped.
+    stop() {
+        this.isStarted = false;
+        this.startId++;
+        this._timer && clearTimeout(this._timer);
+        this._timer = null;
+
+        this.queue = [];
+        Object.values(this.accounts).forEach(account => this.clearAccount(account));
+    }
+
+    onError(errorCB: Function) {
+        this.errorCB = errorCB;
+    }
+
+    onSuccess(successCB: Function) {
+        this.successCB = successCB;
+    }
+
+    private async poll() {
+        const accountList = Object.values(this.accounts).filter(_a => !_a.retryTimer && !_a.isQueued && !_a.isRunning);
+
+        for (let i = 0; i < accountList.length && this.isStarted; i += this.batchSize) {
+            const batchList = accountList.slice(i, i + this.batchSize);
+
+            let data = null;
+            try {
+                data = await this.provider.request('ledger_getUnreceivedBlocksInBatch', batchList.map(({ address }) => {
+                    return { address, pageNumber: 0, pageCount: this.pageSize };
+                }));
+            } catch (error) {
+                this.emitError({
+                    message: 'Get unreceivedAccountBlocks error',
+                    error
+                });
+                continue;
+            }
+
+            batchList.forEach(account => {
+                const unreceivedBlocks = data && data[account.address];
+                if (!unreceivedBlocks || !unreceivedBlocks.length || this.accounts[account.address] !== account) {
+                    return;
+                }
+                account.unreceivedBlocks = unreceivedBlocks;
+                this.enqueue(account);
+            });
+        }
+    }
+
+    private async subscribe(account: ReceiverAccount) {
+        const startId = this.startId;
+        try {
+            const event = await this.provider.subscribe('createUnreceivedBlockSubscriptionByAddress', account.address);
+            if (this.accounts[account.address] !== account || !this.isStarted || startId !== this.startId) {
+                this.provider.unsubscribe(event);
+                return;
+            }
+
+            account.event = event;
+            event.on(result => {
+                (result || []).some(_r => !_r.received && !_r.removed) && this.enqueue(account);
+            });
+            // Blocks may be missed while the connection is lost.
+            event.onResubscribed && event.onResubscribed(() => this.enqueue(account));
+        } catch (error) {
+            this.emitError({
+                message: 'Subscribe unreceivedAccountBlocks error',
+                address: account.address,
+                error
+            });
+        }
+    }
+
+    private enqueue(account: ReceiverAccount) {
+        if (!this.isStarted || this.accounts[account.address] !== account || account.retryTimer || account.isQueued) {
+            return;
+        }
+        if (account.isRunning) {
+            account.isDirty = true;
+            return;
+        }
+
+        account.isQueued = true;
+        this.queue.push(account);
+        this.drain();
+    }
+
+    private drain() {
+        while (this.runningCount < this.concurrency && this.queue.length) {
+            const account = this.queue.shift();
+            account.isQueued = false;
+            account.isRunning = true;
+            this.runningCount++;
+
+            this.receive(account).then(() => {
+                account.isRunning = false;
+                this.runningCount--;
+
+                if (account.isDirty) {
+                    account.isDirty = false;
+                    this.enqueue(account);
+                }
+                this.drain();
+            });
+        }
+    }
+
+    // Receive one page of unreceived blocks. Blocks after an error are still received from the latest block of node.
+    private async receive(account: ReceiverAccount) {
+        const { address } = account;
+        const accountBlockList: AccountBlockBlock[] = [];
+        let previousAccountBlock: AccountBlockBlock = null;
+        let hasError = false;
+
+        try {
+            let pageIndex = 0;
+            let unreceivedBlocks = account.unreceivedBlocks || await this.getUnreceivedBlocks(address, pageIndex);
+            account.unreceivedBlocks = null;
+
+            for (;;) {
+                const receivableBlocks = unreceivedBlocks.filter(_b => this.isReceivable(_b));
+
+                for (const { hash } of receivableBlocks) {
+                    if (!this.isStarted) {
+                        break;
+                    }
+
+                    try {
+                        previousAccountBlock = await this.receiveAccountBlockByPrevious(account, hash, previousAccountBlock);
+                        accountBlockList.push(previousAccountBlock);
+                    } catch (error) {
+                        hasError = true;
+                        previousAccountBlock = null;
+                        this.emitError({
+                            message: `Receive accountBlock ${ hash } error`,
+                            address,
+                            unreceivedHash: hash,
+                            error
+                        });
+                    }
+                }
+
+                if (unreceivedBlocks.length < this.pageSize || !this.isStarted) {
+                    break;
+                }
+                // More blocks are waiting, handle them in the next round.
+                if (receivableBlocks.length) {
+                    account.isDirty = true;
+                    break;
+                }
+
+                // Filtered blocks are still unreceived, so the next page is where new blocks are.
+                unreceivedBlocks = await this.getUnreceivedBlocks(address, ++pageIndex);
+            }
+        } catch (error) {
+            hasError = true;
+            this.emitError({
+                message: 'Get unreceivedAccountBlocks error',
+                address,
+                error
+            });
+        }
+
+        accountBlockList.length && this.emitSuccess({
+            message: 'Receive accountBlock success',
+            address,
+            accountBlockList
+        });
+
+        if (hasError) {
+            this.retryLater(account);
+            return;
+        }
+        account.failures = 0;
+    }
+
+    private retryLater(account: ReceiverAccount) {
+        if (!this.isStarted || this.accounts[account.address] !== account) {
+            return;
+        }
+
+        const delay = Math.min(this.backoff.delay * Math.pow(2, account.failures), this.backoff.maxDelay);
+        account.failures++;
+        account.isDirty = false;
+        account.retryTimer = setTimeout(() => {
+            account.retryTimer = null;
+            this.enqueue(account);
+        }, delay);
+    }
+
+    private isReceivable({ address, tokenId, amount }: AccountBlockType): boolean {
+        const { tokenIds, minAmount, blacklist } = this.filter;
+
+        if (tokenIds && tokenIds.indexOf(tokenId) === -1) {
+            return false;
+        }
+        if (blacklist && blacklist.indexOf(address) !== -1) {
+            return false;
+        }
+
+        const min = minAmount && typeof minAmount === 'object' ? minAmount[tokenId] : minAmount;
+        return !min || !new BigNumber(amount || '0').lt(new BigNumber(min));
+    }
+
+    private async getUnreceivedBlocks(address: Address, pageIndex: number): Promise<AccountBlockType[]> {
+        const data = await this.provider.request('ledger_getUnreceivedBlocksByAddress', address, pageIndex, this.pageSize);
+        return data || [];
+    }
+
+    private async receiveAccountBlockByPrevious(account: ReceiverAccount, sendBlockHash: Hex, previousAccountBlock: AccountBlockBlock): Promise<AccountBlockBlock> {
+        const accountBlock = account.transaction.receive({ sendBlockHash });
+        this.powSolver && accountBlock.setPoWSolver(this.powSolver);
+
+        if (!previousAccountBlock) {
+            return accountBlock.autoSendByPoW();
+        }
+
+        accountBlock.setPreviousAccountBlock(previousAccountBlock as AccountBlockType);
+        return accountBlock.sendByPoW();
+    }
+
+    private clearAccount(account: ReceiverAccount) {
+        account.retryTimer && clearTimeout(account.retryTimer);
+        account.retryTimer = null;
+        account.isQueued = false;
+        account.isDirty = false;
+        account.unreceivedBlocks = null;
+
+        account.event && this.provider.unsubscribe(account.event);
+        account.event = null;
+    }
+
+    private emitSuccess(result: { message: string; address: Address; accountBlockList: AccountBlockBlock[] }) {
+        this.successCB && this.successCB({
+            status: 'ok',
+            timestamp: new Date().getTime(),
+            ...result
+        });
+    }
+
+    private emitError(error: { message: string; error: any; address?: Address; unreceivedHash?: Hex }) {
+        this.errorCB && this.errorCB({
+            status: 'error',
+            timestamp: new Date().getTime(),
+            ...error
+        });
+    }
+}
+
+export const ReceiverManager = ReceiverManagerClass;
+export default ReceiverManagerClass;
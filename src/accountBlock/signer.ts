@@ -0,0 +1,168 @@
+import { checkParams, isHexString, isNonNegativeInteger, ed25519 } from '~@vite/vitejs-utils';
+import { createAddressByPrivateKey } from '~@vite/vitejs-wallet/address';
+import { getMnemonicsFromEntropy, getWordlistByLang } from '~@vite/vitejs-wallet/hdKey';
+import Wallet from '~@vite/vitejs-wallet/wallet';
+import { decrypt, getPayload } from '~@vite/vitejs-keystore';
+
+import { Address, Hex, Base64, SignerType, ProviderType, AccountBlockEnvelope, ScryptOptions } from './type';
+
+
+class PrivateKeySignerClass implements SignerType {
+    private privateKey: Hex
+
+    constructor(privateKey: Hex) {
+        const err = checkParams({ privateKey }, ['privateKey'], [{
+            name: 'privateKey',
+            func: isHexString
+        }]);
+        if (err) {
+            throw err;
+        }
+
+        this.privateKey = privateKey;
+    }
+
+    async getAddress(): Promise<Address> {
+        return createAddressByPrivateKey(this.privateKey).address;
+    }
+
+    async getPublicKey(): Promise<Hex> {
+        return createAddressByPrivateKey(this.privateKey).publicKey;
+    }
+
+    async signHash(hash: Hex): Promise<Hex> {
+        return ed25519.sign(hash, this.privateKey);
+    }
+}
+
+class WalletSignerClass extends PrivateKeySignerClass {
+    readonly index: number
+
+    constructor(wallet: Wallet, index = 0) {
+        const err = checkParams({ wallet, index }, [ 'wallet', 'index' ], [ {
+            name: 'wallet',
+            func: _w => typeof _w.deriveAddress === 'function'
+        }, {
+            name: 'index',
+            func: isNonNegativeInteger
+        } ]);
+        if (err) {
+            throw err;
+        }
+
+        super(wallet.deriveAddress(index).privateKey);
+        this.index = index;
+    }
+}
+
+// The keystore is decrypted at the first time of using. It may contain a privateKey or the entropy of mnemonics.
+class KeystoreSignerClass implements SignerType {
+    readonly index: number
+    private keystore: string | Object
+    private password: string
+    private scrypt: Function | ScryptOptions
+    private signer: Promise<PrivateKeySignerClass>
+
+    constructor({ keystore, password, index = 0, scrypt }: {
+        keystore: string | Object; password: string; index?: number; scrypt?: Function | ScryptOptions;
+    }) {
+        const err = checkParams({ keystore, password, index }, [ 'keystore', 'password' ], [{
+            name: 'index',
+            func: isNonNegativeInteger
+        }]);
+        if (err) {
+            throw err;
+        }
+
+        this.keystore = keystore;
+        this.password = password;
+        this.index = index;
+        this.scrypt = scrypt;
+        this.signer = null;
+    }
+
+    async getAddress(): Promise<Address> {
+        const signer = await this.getSigner();
+        return signer.getAddress();
+    }
+
+    async getPublicKey(): Promise<Hex> {
+        const signer = await this.getSigner();
+        return signer.getPublicKey();
+    }
+
+    async signHash(hash: Hex): Promise<Hex> {
+        const signer = await this.getSigner();
+        return signer.signHash(hash);
+    }
+
+    private getSigner(): Promise<PrivateKeySignerClass> {
+        if (!this.signer) {
+            this.signer = decrypt(this.keystore, this.password, this.scrypt).then((key: Hex) => {
+                if (!isHexString(key)) {
+                    throw new Error('[Error] Keystore doesn\'t contain a privateKey or entropy.');
+                }
+                // Keystore without payload is guessed by the length, a privateKey of ed25519 is 64 bytes.
+                const payload = getPayload(this.keystore);
+                if (payload ? payload.kind === 'privateKey' : key.length === 128) {
+                    return new PrivateKeySignerClass(key);
+                }
+
+                const wordlist = payload && payload.wordlistLang ? getWordlistByLang(payload.wordlistLang) || undefined : undefined;
+                return new WalletSignerClass(new Wallet(getMnemonicsFromEntropy(key, wordlist), wordlist), this.index);
+            });
+
+            // Decrypt again next time, such as the password is wrong.
+            this.signer.catch(() => {
+                this.signer = null;
+            });
+        }
+        return this.signer;
+    }
+}
+
+// Send unsigned accountBlocks to a signing server by JSON-RPC, such as the one created by createSigningServer.
+class RemoteSignerClass implements SignerType {
+    private provider: ProviderType
+    private address: Address
+    private publicKey: Hex
+
+    constructor(provider: ProviderType) {
+        const err = checkParams({ provider }, ['provider']);
+        if (err) {
+            throw err;
+        }
+
+        this.provider = provider;
+        this.address = null;
+        this.publicKey = null;
+    }
+
+    async getAddress(): Promise<Address> {
+        if (!this.address) {
+            this.address = await this.provider.request('signer_getAddress');
+        }
+        return this.address;
+    }
+
+    async getPublicKey(): Promise<Hex> {
+        if (!this.publicKey) {
+            this.publicKey = await this.provider.request('signer_getPublicKey');
+        }
+        return this.publicKey;
+    }
+
+    // Signing server only signs accountBlocks which pass its policy, so a bare hash can't be signed.
+    async signHash(): Promise<Hex> {
+        throw new Error('[Error] RemoteSigner only signs accountBlocks, please use signAccountBlock.');
+    }
+
+    async signAccountBlock(envelope: AccountBlockEnvelope): Promise<{ signature: Base64; publicKey: Base64 }> {
+        return this.provider.request('signer_signAccountBlock', envelope);
+    }
+}
+
+export const PrivateKeySigner = PrivateKeySignerClass;
+export const WalletSigner = WalletSignerClass;
+export const KeystoreSigner = KeystoreSignerClass;
+export const RemoteSigner = RemoteSignerClass;
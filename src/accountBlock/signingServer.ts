@@ -0,0 +1,139 @@
+const BigNumber = require('bn.js');
+
+import { signingRefused } from '~@vite/vitejs-error';
+import { checkParams, isArray, isObject } from '~@vite/vitejs-utils';
+import { isValidAddress, AddressType } from '~@vite/vitejs-wallet/address';
+
+import AccountBlock from './accountBlock';
+import { KeystoreSigner } from './signer';
+import { getTransactionType } from './utils';
+
+import { TokenId, AccountBlockEnvelope, SigningPolicy, ScryptOptions } from './type';
+
+// Return an error if the accountBlock doesn't pass the policy. A policy without any rule refuses all.
+export function checkSigningPolicy(accountBlock: AccountBlock, policy: SigningPolicy = {}): { code: string; message: string } {
+    const refuse = (msg: string) => {
+        return {
+            code: signingRefused.code,
+            message: `${ signingRefused.message }. ${ msg }`
+        };
+    };
+
+    const { maxAmount, maxFee, toAddressList, transactionTypeList, contractTransactionType } = policy || {};
+    if (!maxAmount && !maxFee && !toAddressList && !transactionTypeList) {
+        return refuse('No rule of policy.');
+    }
+
+    if (maxAmount && accountBlock.isRequestBlock && Number(accountBlock.amount)) {
+        const tokenId: TokenId = accountBlock.tokenId;
+        if (!maxAmount[tokenId]) {
+            return refuse(`Token ${ tokenId } is not allowed.`);
+        }
+        if (new BigNumber(accountBlock.amount).gt(new BigNumber(maxAmount[tokenId]))) {
+            return refuse(`Amount of ${ tokenId } is more than ${ maxAmount[tokenId] }.`);
+        }
+    }
+
+    if (maxFee && accountBlock.isRequestBlock && new BigNumber(accountBlock.fee || '0').gt(new BigNumber(maxFee))) {
+        return refuse(`Fee is more than ${ maxFee }.`);
+    }
+
+    if (toAddressList && accountBlock.isRequestBlock && toAddressList.indexOf(accountBlock.toAddress) === -1) {
+        return refuse(`ToAddress ${ accountBlock.toAddress } is not allowed.`);
+    }
+
+    if (transactionTypeList) {
+        const { transactionType } = getTransactionType(accountBlock, contractTransactionType);
+        if (transactionTypeList.indexOf(transactionType) === -1) {
+            return refuse(`TransactionType ${ transactionType } is not allowed.`);
+        }
+
+        // Unknown contract calls and transfers with data are TransferRequest too, they are only allowed by their own types.
+        if (transactionType === 'TransferRequest'
+            && (accountBlock.data || isValidAddress(accountBlock.toAddress) === AddressType.Contract)) {
+            return refuse('TransferRequest with data or to a contract is not allowed.');
+        }
+    }
+
+    return null;
+}
+
+// A reference signing server for RemoteSigner, Node.js only. It holds a keystore and signs accountBlocks
+// which pass the policy, by JSON-RPC over HTTP.
+// A policy is required, the server doesn't sign for whoever can reach it by default.
+export function createSigningServer({ keystore, password, index = 0, scrypt, policy }: {
+    keystore: string | Object; password: string; index?: number; scrypt?: Function | ScryptOptions; policy: SigningPolicy;
+}) {
+    const err = checkParams({ policy }, ['policy'], [{
+        name: 'policy',
+        func: isObject
+    }]);
+    if (err) {
+        throw err;
+    }
+
+    const http = require('http');
+    const signer = new KeystoreSigner({ keystore, password, index, scrypt });
+
+    const methods = {
+        signer_getAddress: () => signer.getAddress(),
+        signer_getPublicKey: () => signer.getPublicKey(),
+        signer_signAccountBlock: async (envelope: AccountBlockEnvelope) => {
+            const accountBlock = AccountBlock.fromJSON(envelope);
+
+            const err = checkSigningPolicy(accountBlock, policy);
+            if (err) {
+                throw err;
+            }
+
+            await accountBlock.signBySigner(signer);
+            return {
+                signature: accountBlock.signature,
+                publicKey: accountBlock.publicKey
+            };
+        }
+    };
+
+    const handle = async ({ id, method, params }: { id: number; method: string; params?: any[] }): Promise<Object> => {
+        try {
+            if (!methods[method]) {
+                throw { code: -32601, message: `The method ${ method } does not exist` };
+            }
+            const result = await methods[method](...(params || []));
+            return { jsonrpc: '2.0', id, result };
+        } catch (err) {
+            return {
+                jsonrpc: '2.0',
+                id,
+                error: { code: err.code || -32000, message: err.message || `${ err }` }
+            };
+        }
+    };
+
+    return http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => {
+            body += chunk;
+        });
+        req.on('end', async () => {
+            let payload = null;
+            try {
+                payload = JSON.parse(body);
+            } catch (err) {
+                payload = null;
+            }
+
+            let result = null;
+            if (isArray(payload)) {
+                result = await Promise.all(payload.map(handle));
+            } else if (isObject(payload)) {
+                result = await handle(payload);
+            } else {
+                result = { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } };
+            }
+
+            res.writeHead(200, { 'Content-Type': 'application/json;charset=utf-8' });
+            res.end(JSON.stringify(result));
+        });
+    });
+}
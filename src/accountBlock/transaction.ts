@@ -1,18 +1,19 @@
-import { BlockType, Vite_TokenId, Contracts } from '~@vite/vitejs-constant';
+import { BlockType, Vite_TokenId, Vite_Token_Info, Contracts } from '~@vite/vitejs-constant';
 import { isValidAddress, AddressType, createAddressByPrivateKey } from '~@vite/vitejs-wallet/address';
-import { checkParams, isNonNegativeInteger, isHexString, isArray, isObject, isValidSBPName, isValidTokenId, isBase64String } from '~@vite/vitejs-utils';
-import { paramsConflict } from '~@vite/vitejs-error';
+import { checkParams, isNonNegativeInteger, isHexString, isArray, isObject, isValidSBPName, isValidTokenId, isBase64String, uriParse, parseUnits } from '~@vite/vitejs-utils';
+import { paramsConflict, paramsMissing, addressIllegal } from '~@vite/vitejs-error';
 
 import AccountBlock from './accountBlock';
-import { getCreateContractData, getCallContractData } from './utils';
+import { getCreateContractData, getCallContractData, isSigner } from './utils';
 
-import { Hex, Address, TokenId, BigInt, Base64, Int32, Uint8, Uint32, Uint256, Bytes32, ProviderType } from './type';
+import { Hex, Address, TokenId, BigInt, Base64, Int32, Uint8, Uint32, Uint256, Bytes32, ProviderType, SignerType, ViteURI } from './type';
 
 
 class TransactionClass {
     readonly address: Address
     private provider: ProviderType
     private privateKey: Hex
+    private signer: SignerType
 
     constructor(address: Address) {
         const err = checkParams({ address }, ['address'], [{
@@ -46,6 +47,21 @@ class TransactionClass {
         }
 
         this.privateKey = privateKey;
+        this.signer = null;
+        return this;
+    }
+
+    setSigner(signer: SignerType): TransactionClass {
+        const err = checkParams({ signer }, ['signer'], [{
+            name: 'signer',
+            func: isSigner
+        }]);
+        if (err) {
+            throw err;
+        }
+
+        this.signer = signer;
+        this.privateKey = null;
         return this;
     }
 
@@ -59,7 +75,7 @@ class TransactionClass {
             blockType: BlockType.Response,
             address: this.address,
             sendBlockHash
-        }, this.provider, this.privateKey);
+        }, this.provider, this.privateKey || this.signer);
 
         return accountBlock;
     }
@@ -82,7 +98,7 @@ class TransactionClass {
             tokenId,
             amount,
             data
-        }, this.provider, this.privateKey);
+        }, this.provider, this.privateKey || this.signer);
 
         return accountBlock;
     }
@@ -128,7 +144,7 @@ class TransactionClass {
             data,
             fee: '10000000000000000000',
             tokenId: Vite_TokenId
-        }, this.provider, this.privateKey);
+        }, this.provider, this.privateKey || this.signer);
     }
 
     callContract({ toAddress, tokenId = Vite_TokenId, amount = '0', fee = '0', abi, methodName, params = [] }: {
@@ -156,7 +172,58 @@ class TransactionClass {
             amount,
             fee,
             data: getCallContractData({ abi, params, methodName })
-        }, this.provider, this.privateKey);
+        }, this.provider, this.privateKey || this.signer);
+    }
+
+    // Amounts in a URI are in token units, such as amount=1.5 for 1.5 VITE.
+    // decimals is needed unless tti is VITE, fee is always paid in VITE.
+    fromURI({ uri, abi, decimals }: {
+        uri: string | ViteURI;
+        abi?: Object | Array<Object>;
+        decimals?: number;
+    }): AccountBlock {
+        const err = checkParams({ uri, decimals }, ['uri'], [{
+            name: 'decimals',
+            func: isNonNegativeInteger
+        }]);
+        if (err) {
+            throw err;
+        }
+
+        const { target_address: toAddress, function_name: methodName, params = {} } = typeof uri === 'string' ? uriParse(uri) : uri;
+        if (!isValidAddress(toAddress)) {
+            throw addressIllegal;
+        }
+
+        const tokenId = params.tti || Vite_TokenId;
+        const _decimals = typeof decimals === 'undefined' && tokenId === Vite_TokenId ? Vite_Token_Info.decimals : decimals;
+        const amount = toBaseUnits(params.amount, _decimals);
+        const fee = toBaseUnits(params.fee, Vite_Token_Info.decimals);
+
+        if (abi && methodName) {
+            return this.callContract({
+                toAddress,
+                tokenId,
+                amount,
+                fee,
+                abi,
+                methodName,
+                params: getFunctionInputs(abi, methodName).map(input => params[input.name])
+            });
+        }
+
+        if (methodName && !params.data) {
+            throw {
+                code: paramsMissing.code,
+                message: `${ paramsMissing.message } abi of ${ methodName }.`
+            };
+        }
+
+        const accountBlock = this.send({ toAddress, tokenId, amount, data: params.data });
+        if (fee !== '0') {
+            accountBlock.fee = fee;
+        }
+        return accountBlock;
     }
 
     registerSBP({ sbpName, blockProducingAddress, rewardWithdrawAddress, amount = '1000000000000000000000000' }: {
@@ -839,5 +906,30 @@ class TransactionClass {
     }
 }
 
+function toBaseUnits(amount: string, decimals?: number): BigInt {
+    if (!amount || /^0+(\.0+)?$/.test(amount)) {
+        return '0';
+    }
+    if (typeof decimals === 'undefined') {
+        throw {
+            code: paramsMissing.code,
+            message: `${ paramsMissing.message } decimals.`
+        };
+    }
+    return parseUnits(amount, decimals);
+}
+
+function getFunctionInputs(abi: Object | Array<Object>, methodName: string): Array<{ name: string }> {
+    const abis: Array<any> = isArray(abi) ? abi as Array<Object> : [abi];
+    const funcAbi = abis.find(_a => _a.type === 'function' && _a.name === methodName);
+    if (!funcAbi) {
+        throw {
+            code: paramsMissing.code,
+            message: `${ paramsMissing.message } ${ methodName } in abi.`
+        };
+    }
+    return funcAbi.inputs || [];
+}
+
 export const Transaction = TransactionClass;
 export default TransactionClass;
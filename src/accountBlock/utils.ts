@@ -13,6 +13,8 @@ export const Default_Hash = '000000000000000000000000000000000000000000000000000
 
 export const Default_Contract_TransactionType = encodeContractList(Contracts);
 
+export const AccountBlock_Envelope_Version = 1;
+
 export enum AccountBlockStatus {
     'Before_Hash' = 1,
     'Before_Signature',
@@ -218,6 +220,12 @@ export function isValidAccountBlock(accountBlock) {
     return !err;
 }
 
+export function isSigner(signer): Boolean {
+    return !!signer && typeof signer.getAddress === 'function'
+        && typeof signer.getPublicKey === 'function'
+        && typeof signer.signHash === 'function';
+}
+
 export function isRequestBlock(blockType: BlockType): Boolean {
     return blockType === BlockType.CreateContractRequest
         || blockType === BlockType.TransferRequest
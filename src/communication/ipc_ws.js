@@ -1,3 +1,5 @@
+import { requestAborted } from '~@vite/vitejs-error';
+
 import Communication from './communication.js';
 
 class IpcWs extends Communication {
@@ -18,6 +20,7 @@ class IpcWs extends Communication {
         this._connectClose = null;
 
         this.subscribeMethod = null;
+        this._listeners = {};
     }
 
     _connected() {
@@ -95,7 +98,7 @@ class IpcWs extends Communication {
         return `_connect${ eventType }`;
     }
 
-    _onSend(payloads) {
+    _onSend(payloads, { signal, timeout = this.timeout } = {}) {
         const id = getIdFromPayloads(payloads);
         if (!id) {
             return;
@@ -125,9 +128,19 @@ class IpcWs extends Communication {
                 }
             });
 
+            const onAbort = () => {
+                if (resetAbort) {
+                    return;
+                }
+
+                clearRequestAndTimeout();
+                return rej(requestAborted);
+            };
+
             const clearRequestAndTimeout = () => {
                 requestTimeout && clearTimeout(requestTimeout);
                 requestTimeout = null;
+                signal && signal.removeEventListener('abort', onAbort);
                 this._removeReq(_request);
                 for (const key in this.responseCbs) {
                     if (key === String(id)) {
@@ -137,26 +150,51 @@ class IpcWs extends Communication {
                 }
             };
 
-            let requestTimeout = this.timeout ? setTimeout(() => {
+            let requestTimeout = timeout ? setTimeout(() => {
                 if (resetAbort) {
                     return;
                 }
 
                 clearRequestAndTimeout();
-                return rej(this.ERRORS.TIMEOUT(this.timeout));
-            }, this.timeout) : null;
+                return rej(this.ERRORS.TIMEOUT(timeout));
+            }, timeout) : null;
+
+            signal && signal.addEventListener('abort', onAbort);
         });
     }
 
-    _send(payloads) {
+    _send(payloads, options = {}) {
         if (!this.connectStatus) {
             return Promise.reject(this.ERRORS.CONNECT(this.path));
         }
+        if (options.signal && options.signal.aborted) {
+            return Promise.reject(requestAborted);
+        }
         this.socket[this._sendFuncName](JSON.stringify(payloads));
-        return this._onSend(payloads);
+        return this._onSend(payloads, options);
     }
 
     on(type, cb) {
+        return this._addListener(type, cb, false);
+    }
+
+    // Listeners of ViteAPI, such as resubscribing after reconnecting, are kept by `remove(type)` without cb.
+    onInternal(type, cb) {
+        return this._addListener(type, cb, true);
+    }
+
+    remove(type, cb) {
+        const eventType = this._checkOnType(type);
+        if (!eventType) {
+            return;
+        }
+
+        const listeners = (this._listeners[type] || []).filter(_l => (cb ? _l.cb !== cb : _l.isInternal));
+        this._listeners[type] = listeners;
+        !listeners.length && (this[eventType] = null);
+    }
+
+    _addListener(type, cb, isInternal) {
         const eventType = this._checkOnType(type);
         if (!eventType) {
             return this.ERRORS.IPC_ON(type);
@@ -164,21 +202,21 @@ class IpcWs extends Communication {
         if (!cb) {
             return this.ERRORS.IPC_ON_CB(type);
         }
-        this[eventType] = cb;
-    }
 
-    remove(type) {
-        const eventType = this._checkOnType(type);
-        eventType && (this[eventType] = null);
+        this._listeners[type] = this._listeners[type] || [];
+        this._listeners[type].push({ cb, isInternal });
+        this[eventType] = (...args) => {
+            (this._listeners[type] || []).slice().forEach(_l => _l.cb(...args));
+        };
     }
 
-    request(methodName, params) {
+    request(methodName, params, options) {
         const requestObj = this._getRequestPayload(methodName, params);
 
         if (requestObj instanceof Error) {
             return Promise.reject(requestObj);
         }
-        return this._send(requestObj);
+        return this._send(requestObj, options);
     }
 
     sendNotification(methodName, params) {
@@ -194,15 +232,16 @@ class IpcWs extends Communication {
     /**
      * batch
      * @param {*} requests [{type, methodName, params}]
+     * @param {*} options {signal, timeout}
      */
-    batch(requests = []) {
+    batch(requests = [], options) {
         const _requests = this._getBatchPayload(requests);
 
         if (_requests instanceof Error) {
             return Promise.reject(_requests);
         }
 
-        return this._send(_requests);
+        return this._send(_requests, options);
     }
 
     subscribe(callback) {
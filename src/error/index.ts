@@ -37,3 +37,18 @@ export const requestTimeout = {
     code: '300001',
     message: 'Request timeout'
 };
+
+export const waitTimeout = {
+    code: '300002',
+    message: 'Wait timeout'
+};
+
+export const requestAborted = {
+    code: '300003',
+    message: 'Request aborted'
+};
+
+export const signingRefused = {
+    code: '400001',
+    message: 'Signing refused'
+};
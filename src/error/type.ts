@@ -96,6 +96,15 @@ export declare type TokenInfo = {
     index: Uint16;
 }
 
+export declare type RoundingMode = 'down' | 'up' | 'halfUp' | 'halfEven';
+
+export declare type TokenUnitInfo = {
+    tokenId: TokenId;
+    tokenSymbol: string;
+    decimals: number;
+    index?: number;
+}
+
 export declare type AccountBlockType = {
     blockType: BlockType;
     height: Uint64;
@@ -157,6 +166,75 @@ export declare type Transaction = {
     contractParams?: Object;
 }
 
+export declare type AccountBlockReceipt = {
+    status: 'success' | 'responseFail';
+    accountBlock: AccountBlockType;
+    receiveAccountBlock: AccountBlockType | null;
+}
+
+export declare type AccountBlockEnvelope = {
+    version: number;
+    status: 'Before_Hash' | 'Before_Signature' | 'Complete';
+    accountBlock: AccountBlockBlock;
+}
+
+export declare type SigningPolicy = {
+    // Max amount of each token in one accountBlock. Tokens not in it can't be sent.
+    maxAmount?: { [tokenId: string]: BigInt };
+    // Max fee in VITE of one accountBlock.
+    maxFee?: BigInt;
+    toAddressList?: Address[];
+    // Such as ['TransferRequest', 'Response', 'StakeForQuota'], see getTransactionType.
+    // TransferRequest doesn't allow data or contract toAddress.
+    transactionTypeList?: string[];
+    contractTransactionType?: Object;
+}
+
+export declare type VmLogEvent = {
+    event: string;
+    args: Object;
+    accountBlockHash: Hex;
+    height: Uint64;
+    address: Address;
+    removed: boolean;
+}
+
+export declare type ViteURI = {
+    schema: string;
+    prefix?: string;
+    target_address: Address;
+    chain_id?: number;
+    function_name?: string;
+    // Query params are kept as strings, except data which is decoded back to standard Base64.
+    params: {
+        tti?: TokenId;
+        amount?: string;
+        fee?: string;
+        data?: Base64;
+        [key: string]: any;
+    };
+}
+
+// Keystore of version 3 may record what its key is. derivationRoot and wordlistLang (a key of bip39.wordlists) are for entropy.
+export declare type KeystorePayload = {
+    kind: 'privateKey' | 'entropy';
+    wordlistLang?: string;
+    derivationRoot?: string;
+}
+
+export declare type ScryptProgress = {
+    current: number;
+    total: number;
+    percent: number;
+}
+
+export declare type ScryptOptions = {
+    // (pwd, salt: number[], n, r, p, keylen) => Promise<Buffer>, such as a scrypt in a worker.
+    selfScryptsy?: Function;
+    onProgress?: (progress: ScryptProgress) => void;
+    signal?: AbortSignalLike;
+}
+
 export declare type AddressObj = {
     originalAddress: Hex;
     publicKey: Hex;
@@ -196,6 +274,7 @@ export declare type Methods = string |
 'ledger_getUnreceivedTransactionSummaryInBatch' |
 'ledger_getVmlogsByFilter' |
 'ledger_getPoWDifficulty' |
+'ledger_getSnapshotChainHeight' |
 'contract_createContractAddress' |
 'contract_getContractInfo' |
 'contract_callOffChainMethod' |
@@ -237,32 +316,206 @@ export declare interface RPCRequest {
     type?: string;
     methodName: Methods;
     params: any[];
+    signal?: AbortSignalLike;
+    timeout?: number;
+}
+
+// AbortSignal of browsers and Node.js, or any object with the same interface.
+export declare interface AbortSignalLike {
+    readonly aborted: boolean;
+    addEventListener: (type: 'abort', listener: () => void) => void;
+    removeEventListener: (type: 'abort', listener: () => void) => void;
+}
+
+export declare interface RPCRequestOptions {
+    signal?: AbortSignalLike;
+    timeout?: number;
 }
 
-export declare interface RPCResponse {
+export declare interface RPCResponse<T = any> {
     jsonrpc?: string;
     id?: number;
-    result?: any;
+    result?: T;
     error?: RPCError;
 }
 
+export declare type BalanceInfo = {
+    tokenInfo: TokenInfo;
+    balance: BigInt;
+    transactionCount?: Uint64;
+}
+
+export declare type AccountInfo = {
+    address: Address;
+    blockCount: Uint64;
+    balanceInfoMap?: { [tokenId: string]: BalanceInfo };
+}
+
+export declare type UnreceivedSummary = {
+    address: Address;
+    blockCount: Uint64;
+    balanceInfoMap?: { [tokenId: string]: BalanceInfo };
+}
+
+export declare type QuotaInfo = {
+    currentQuota: Uint64;
+    maxQuota: Uint64;
+    stakeAmount: BigInt;
+}
+
+export declare type StakeInfo = {
+    stakeAddress: Address;
+    stakeAmount: BigInt;
+    beneficiary: Address;
+    expirationHeight: Uint64;
+    expirationTime: number;
+    isDelegated: boolean;
+    delegateAddress: Address;
+    bid: Uint8;
+    id?: Hex;
+}
+
+export declare type StakeList = {
+    totalStakeAmount: BigInt;
+    totalStakeCount: number;
+    stakeList: StakeInfo[];
+}
+
+export declare type SBPInfo = {
+    name: string;
+    blockProducingAddress: Address;
+    rewardWithdrawAddress: Address;
+    stakeAddress: Address;
+    stakeAmount: BigInt;
+    expirationHeight: Uint64;
+    expirationTime: number;
+    revokeTime: number;
+}
+
+// state: 0 is init, 1 is syncing, 2 is sync done, 3 is sync error, 4 is cancel
+export declare type SyncInfo = {
+    from: Uint64;
+    to: Uint64;
+    current: Uint64;
+    state: number;
+    status: string;
+}
+
+export declare type PoWDifficulty = {
+    requiredQuota: Uint64;
+    difficulty: BigInt;
+    qc: BigInt;
+    isCongestion: boolean;
+}
+
+// Params and result of RPC methods. Methods not in it are called with any params and return any.
+export declare interface RpcSchema {
+    ledger_getAccountInfoByAddress: { params: [Address]; result: AccountInfo };
+    ledger_getUnreceivedTransactionSummaryByAddress: { params: [Address]; result: UnreceivedSummary };
+    ledger_getLatestAccountBlock: { params: [Address]; result: AccountBlockType | null };
+    ledger_getAccountBlockByHash: { params: [Hex]; result: AccountBlockType | null };
+    ledger_getAccountBlockByHeight: { params: [Address, Uint64]; result: AccountBlockType | null };
+    ledger_getAccountBlocksByAddress: { params: [Address, number, number]; result: AccountBlockType[] | null };
+    ledger_getUnreceivedBlocksByAddress: { params: [Address, number, number]; result: AccountBlockType[] | null };
+    ledger_getUnreceivedBlocksInBatch: {
+        params: [Array<{ address: Address; pageNumber: number; pageCount: number }>];
+        result: { [address: string]: AccountBlockType[] | null } | null;
+    };
+    ledger_getSnapshotChainHeight: { params: []; result: Uint64 };
+    ledger_getPoWDifficulty: {
+        params: [{ address: Address; previousHash: Hex; blockType: BlockType; toAddress?: Address; data?: Base64 }];
+        result: PoWDifficulty;
+    };
+    ledger_sendRawTransaction: { params: [AccountBlockBlock]; result: null };
+    contract_getQuotaByAccount: { params: [Address]; result: QuotaInfo };
+    contract_getStakeList: { params: [Address, number, number]; result: StakeList };
+    contract_getSBP: { params: [string]; result: SBPInfo | null };
+    contract_getSBPList: { params: [Address]; result: SBPInfo[] };
+    contract_getTokenInfoById: { params: [TokenId]; result: TokenInfo | null };
+    net_syncInfo: { params: []; result: SyncInfo };
+    util_getPoWNonce: { params: [BigInt, Hex]; result: Base64 };
+}
+
+export declare type RpcMethod = keyof RpcSchema;
+
+export declare type RpcParams<M> = M extends RpcMethod ? RpcSchema[M]['params'] : any[];
+
+export declare type RpcResult<M> = M extends RpcMethod ? RpcSchema[M]['result'] : any;
+
+// RpcMethod is kept in the union, so method names of requests in a batch are inferred as literal types.
+export declare type RpcBatchRequest = {
+    type?: string;
+    methodName: RpcMethod | (string & Record<never, never>);
+    params: any[];
+    signal?: AbortSignalLike;
+    timeout?: number;
+}
+
+// Result types of a batch, in the same order as requests.
+export declare type RpcBatchResponses<R extends RpcBatchRequest[]> = {
+    [K in keyof R]: RPCResponse<R[K] extends { methodName: infer M } ? RpcResult<M> : any>;
+};
+
 export declare interface RPCError {
     code: number;
     message: string;
 }
 
+// A batch is passed to middlewares as RPCRequest[], and resolved with RPCResponse[].
+export declare type RPCMiddleware = (
+    req: RPCRequest | RPCRequest[],
+    next: (req?: RPCRequest | RPCRequest[]) => Promise<any>
+) => Promise<any>;
+
+// Persistent stores, such as localStorage or Redis, can be used by implementing it. Values are plain JSON objects.
+export declare interface RPCCacheStore {
+    get: (key: string) => any;
+    set: (key: string, value: any) => any;
+    delete: (key: string) => any;
+}
+
+export declare interface RPCCachePolicy {
+    minConfirmations?: number;
+    maxHeightAge?: number;
+    isCacheable?: (result: any, params: any[]) => boolean;
+}
+
+export declare interface RPCMethodMetrics {
+    count: number;
+    errorCount: number;
+    totalTime: number;
+    maxTime: number;
+}
+
 export declare class ProviderType {
     isConnected: Boolean;
 
     constructor(provider: any, onInitCallback: Function)
 
     setProvider(provider, onInitCallback, abort)
+    use(middleware: RPCMiddleware)
     unsubscribe(event)
     unsubscribeAll()
-    request(methods: Methods, ...args: any[])
-    sendNotification(methods: Methods, ...args: any[])
-    batch(reqs: RPCRequest[])
+    request<M extends Methods>(methods: M, ...args: RpcParams<M>): Promise<RpcResult<M>>
+    requestWithOptions<M extends Methods>(options: RPCRequestOptions, methods: M, ...args: RpcParams<M>): Promise<RpcResult<M>>
+    sendNotification<M extends Methods>(methods: M, ...args: RpcParams<M>)
+    batch<R extends RpcBatchRequest[] | [RpcBatchRequest]>(reqs: R, options?: RPCRequestOptions): Promise<RpcBatchResponses<R>>
     subscribe(methodName, ...args)
+    subscribeWithOptions(options: RPCRequestOptions, methodName, ...args)
+}
+
+export declare class PoWSolverType {
+    getNonce({ difficulty, dataHash }: {
+        difficulty: BigInt;
+        dataHash: Hex;
+    }): Promise<Base64>
+}
+
+export declare class SignerType {
+    getAddress(): Promise<Address>
+    getPublicKey(): Promise<Hex>
+    signHash(hash: Hex): Promise<Hex>
+    signAccountBlock?(envelope: AccountBlockEnvelope): Promise<{ signature: Base64; publicKey: Base64 }>
 }
 
 export declare class ViteAPI extends ProviderType {
@@ -272,11 +525,25 @@ export declare class ViteAPI extends ProviderType {
 
     addTransactionType(contractList: Object)
     getBalanceInfo(address: Address)
-    getTransactionList({ address, pageIndex, pageSize }: {
-        address: Address; pageIndex: number; pageSize?: number;
+    getTransactionList({ address, pageIndex, pageSize, signal, timeout }: {
+        address: Address; pageIndex: number; pageSize?: number; signal?: AbortSignalLike; timeout?: number;
     }, decodeTxTypeList: 'all' | string[])
 
     callOffChainContract({ address, abi, code, params })
+
+    subscribeToEvents({ address, abi, eventName, fromHeight }: {
+        address: Address; abi: Object | Array<Object>; eventName?: string; fromHeight?: Uint64;
+    })
+
+    getPastEvents({ address, abi, eventName, fromHeight, toHeight, topics, pageSize }: {
+        address: Address; abi: Object | Array<Object>; eventName?: string; fromHeight?: Uint64; toHeight?: Uint64; topics?: Array<Hex[]>; pageSize?: number;
+    }): Promise<VmLogEvent[]>
+
+    contract({ address, abi, code }: {
+        address: Address; abi: Object | Array<Object>; code?: Base64;
+    })
+
+    setPoWSolver(powSolver: PoWSolverType)
     getNonce({ difficulty, previousHash, address }: {
         difficulty: BigInt;
         previousHash: Hex;
@@ -304,6 +571,8 @@ export declare type AccountBlockBlock = {
 }
 
 export declare class AccountBlockClassType {
+    static fromJSON(envelope: AccountBlockEnvelope | string, provider?: ProviderType): AccountBlockClassType
+
     blockType: BlockType;
     address: Address;
     fee?: BigInt;
@@ -347,10 +616,12 @@ export declare class AccountBlockClassType {
         amount?: BigInt;
         toAddress?: Address;
         tokenId?: TokenId;
-    }, provider?: ProviderType, privateKey?: Hex)
+    }, provider?: ProviderType, privateKey?: Hex | SignerType)
 
     setProvider(provider: ProviderType)
     setPrivateKey(privateKey: Hex)
+    setSigner(signer: SignerType)
+    setPoWSolver(powSolver: PoWSolverType)
 
     getPreviousAccountBlock(): Promise<AccountBlockType>
     setHeight(height: Uint64): AccountBlockClassType
@@ -372,10 +643,22 @@ export declare class AccountBlockClassType {
     setPublicKey(publicKey: Hex | Base64): AccountBlockClassType
     setSignature(signature: Hex | Base64): AccountBlockClassType
     sign(privateKey?: Hex): AccountBlockClassType
+    signBySigner(signer?: Hex | SignerType): Promise<AccountBlockClassType>
 
     send(): Promise<AccountBlockBlock>
-    sendByPoW(privateKey?: Hex): Promise<AccountBlockBlock>
+    sendByPoW(signer?: Hex | SignerType): Promise<AccountBlockBlock>
+
+    autoSendByPoW(signer?: Hex | SignerType, options?: RPCRequestOptions): Promise<AccountBlockBlock>
+    autoSend(signer?: Hex | SignerType): Promise<AccountBlockBlock>
+
+    waitForReceive({ timeout, interval }?: {
+        timeout?: number; interval?: number;
+    }): Promise<AccountBlockReceipt>
+
+    waitForConfirmation({ confirmations, timeout, interval }?: {
+        confirmations?: number; timeout?: number; interval?: number;
+    }): Promise<AccountBlockReceipt>
 
-    autoSendByPoW(privateKey?: Hex): Promise<AccountBlockBlock>
-    autoSend(privateKey?: Hex): Promise<AccountBlockBlock>
+    toJSON(): AccountBlockEnvelope
+    toBase64(): Base64
 }
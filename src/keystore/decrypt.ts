@@ -11,7 +11,7 @@ const r = defaultScryptParams.r;
 const keyLen = defaultScryptParams.keyLen;
 
 
-function decryptVersion3(keystore, pwd, selfScryptsy) {
+function decryptVersion3(keystore, pwd, scryptOptions) {
     const crypto = keystore.crypto;
     const scryptParams = crypto.scryptparams;
 
@@ -20,10 +20,10 @@ function decryptVersion3(keystore, pwd, selfScryptsy) {
         nonce: crypto.nonce,
         ciphertext: crypto.ciphertext,
         scryptParams
-    }, null, selfScryptsy);
+    }, null, scryptOptions);
 }
 
-function decryptVersion2(keystore, pwd, selfScryptsy) {
+function decryptVersion2(keystore, pwd, scryptOptions) {
     const crypto = keystore.crypto;
     const scryptParams = {
         n: keystore.scryptparams ? keystore.scryptparams.n || n : n,
@@ -38,18 +38,18 @@ function decryptVersion2(keystore, pwd, selfScryptsy) {
         nonce: crypto.nonce,
         ciphertext: keystore.encryptentropy,
         scryptParams
-    }, null, selfScryptsy);
+    }, null, scryptOptions);
 }
 
-function decryptVersion1(keystore, pwd, selfScryptsy) {
+function decryptVersion1(keystore, pwd, scryptOptions) {
     return new Promise((res, rej) => {
-        encryptPwd(pwd, keystore.scryptparams, selfScryptsy).then(encryptP => res(encryptP.toString('hex') === keystore.encryptp)).catch(err => {
+        encryptPwd(pwd, keystore.scryptparams, scryptOptions).then(encryptP => res(encryptP.toString('hex') === keystore.encryptp)).catch(err => {
             rej(err);
         });
     });
 }
 
-function decryptOldKeystore(keystore, pwd, selfScryptsy) {
+function decryptOldKeystore(keystore, pwd, scryptOptions) {
     const crypto = keystore.crypto;
     const scryptParams = crypto.scryptparams;
 
@@ -58,13 +58,13 @@ function decryptOldKeystore(keystore, pwd, selfScryptsy) {
         nonce: crypto.nonce,
         ciphertext: crypto.ciphertext,
         scryptParams
-    }, additionData, selfScryptsy);
+    }, additionData, scryptOptions);
 }
 
 
 const decryptFuncs = [ decryptOldKeystore, decryptVersion1, decryptVersion2, decryptVersion3 ];
 
-export default function decrypt(keystore, pwd, selfScryptsy) {
+export default function decrypt(keystore, pwd, scryptOptions) {
     const err = checkParams({ keystore, pwd }, [ 'keystore', 'pwd' ]);
     if (err) {
         return Promise.reject(err);
@@ -79,14 +79,14 @@ export default function decrypt(keystore, pwd, selfScryptsy) {
     }
 
     if (keyJson.version) {
-        return decryptFuncs[Number(keyJson.version)](keyJson, pwd, selfScryptsy);
+        return decryptFuncs[Number(keyJson.version)](keyJson, pwd, scryptOptions);
     }
 
-    return decryptFuncs[0](keyJson, pwd, selfScryptsy);
+    return decryptFuncs[0](keyJson, pwd, scryptOptions);
 }
 
 
-function _decrypt(pwd, { ciphername, nonce, ciphertext, scryptParams }, additionData, selfScryptsy) {
+function _decrypt(pwd, { ciphername, nonce, ciphertext, scryptParams }, additionData, scryptOptions) {
     const getResult = (encryptPwd, res, rej) => {
         try {
             const entropy = decipheriv({
@@ -102,7 +102,7 @@ function _decrypt(pwd, { ciphername, nonce, ciphertext, scryptParams }, addition
     };
 
     return new Promise((res, rej) => {
-        encryptPwd(pwd, scryptParams, selfScryptsy).then(result => {
+        encryptPwd(pwd, scryptParams, scryptOptions).then(result => {
             getResult(result, res, rej);
         }).catch(err => {
             rej(err);
@@ -6,7 +6,9 @@ import { paramsFormat } from '~@vite/vitejs-error';
 
 import isValid from './validated';
 import { cipheriv, encryptPwd } from './tools';
+import { getPayloadJSON } from './payload';
 import { scryptName, algorithm, currentVersion, defaultScryptParams, additionData } from './vars';
+import { KeystorePayload } from './type';
 
 const { random } = ed25519;
 
@@ -16,12 +18,24 @@ const r = defaultScryptParams.r;
 const keyLen = defaultScryptParams.keyLen;
 
 
-export function encrypt(key, pwd, _scryptParams, selfScryptsy) {
+export function encrypt(key, pwd, _scryptParams, scryptOptions, payload?: KeystorePayload) {
+    return encryptWithUUID(key, pwd, _scryptParams, scryptOptions, null, payload);
+}
+
+// Keystore keeps its uuid and payload when it's re-encrypted.
+export function encryptWithUUID(key, pwd, _scryptParams, scryptOptions, uuid?: string, payload?: KeystorePayload) {
     const err = checkParams({ key, pwd }, [ 'key', 'pwd' ]);
     if (err) {
         return Promise.reject(err);
     }
 
+    let payloadJSON = null;
+    try {
+        payloadJSON = payload ? getPayloadJSON(payload) : null;
+    } catch (err) {
+        return Promise.reject(err);
+    }
+
     const scryptParams = {
         n: _scryptParams && _scryptParams.n ? _scryptParams.n : n,
         r: _scryptParams && _scryptParams.r ? _scryptParams.r : r,
@@ -32,15 +46,15 @@ export function encrypt(key, pwd, _scryptParams, selfScryptsy) {
 
     const getResult = (encryptPwd, res, rej) => {
         try {
-            const _keystore = getKeystore(key, encryptPwd, scryptParams);
+            const _keystore = getKeystore(key, encryptPwd, scryptParams, uuid, payloadJSON);
             res(_keystore);
         } catch (err) {
             rej(err);
         }
     };
 
-    return new Promise((res, rej) => {
-        encryptPwd(pwd, scryptParams, selfScryptsy).then(result => {
+    return new Promise<string>((res, rej) => {
+        encryptPwd(pwd, scryptParams, scryptOptions).then(result => {
             getResult(result, res, rej);
         }).catch(err => {
             rej(err);
@@ -73,7 +87,7 @@ export function encryptV1ToV3(key, keystore) {
     }
 }
 
-export function encryptOldKeystore(privKey, pwd, selfScryptsy) {
+export function encryptOldKeystore(privKey, pwd, scryptOptions) {
     const err = checkParams({ privKey, pwd }, [ 'privKey', 'pwd' ]);
     if (err) {
         throw new Error(err.message);
@@ -117,7 +131,7 @@ export function encryptOldKeystore(privKey, pwd, selfScryptsy) {
     };
 
     return new Promise((res, rej) => {
-        encryptPwd(pwd, scryptParams, selfScryptsy).then(result => {
+        encryptPwd(pwd, scryptParams, scryptOptions).then(result => {
             getResult(result, res);
         }).catch(err => {
             rej(err);
@@ -126,7 +140,7 @@ export function encryptOldKeystore(privKey, pwd, selfScryptsy) {
 }
 
 
-function getKeystore(rawText, pwd, scryptParams) {
+function getKeystore(rawText, pwd, scryptParams, uuid?: string, payload?: Object) {
     const nonce = random(12);
 
     const ciphertext = cipheriv({
@@ -145,8 +159,9 @@ function getKeystore(rawText, pwd, scryptParams) {
     };
 
     const encryptedKeyJSON = {
-        uuid: new UUID(1).format(),
+        uuid: uuid || new UUID(1).format(),
         crypto: cryptoJSON,
+        payload: payload || undefined,
         version: currentVersion,
         timestamp: new Date().getTime()
     };
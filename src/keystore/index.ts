@@ -1,9 +1,14 @@
 import _isValid from './validated';
 import _decrypt from './decrypt';
 import { encrypt as _encrypt, encryptV1ToV3 as _encryptTo3, encryptOldKeystore as _encryptOldKeystore } from './encrypt';
+import { changePassword as _changePassword, upgrade as _upgrade } from './upgrade';
+import { getPayload as _getPayload } from './payload';
 
 export const isValid = _isValid;
 export const decrypt = _decrypt;
 export const encrypt = _encrypt;
 export const encryptV1ToV3 = _encryptTo3;
 export const encryptOldKeystore = _encryptOldKeystore;
+export const changePassword = _changePassword;
+export const upgrade = _upgrade;
+export const getPayload = _getPayload;
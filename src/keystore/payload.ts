@@ -0,0 +1,60 @@
+import { paramsFormat } from '~@vite/vitejs-error';
+
+import isValid, { isValidPayload } from './validated';
+import { KeystorePayload } from './type';
+
+
+// Payload isn't encrypted, it can be read without the password.
+export function getPayload(keystore): KeystorePayload {
+    const keyJson = isValid(typeof keystore === 'string' ? keystore : JSON.stringify(keystore));
+    if (!keyJson || !keyJson.payload) {
+        return null;
+    }
+
+    const { kind, wordlistlang, derivationroot } = keyJson.payload;
+    const payload: KeystorePayload = { kind: kind === 'privatekey' ? 'privateKey' : 'entropy' };
+    if (wordlistlang) {
+        payload.wordlistLang = wordlistlang;
+    }
+    if (derivationroot) {
+        payload.derivationRoot = derivationroot;
+    }
+    return payload;
+}
+
+// Old keystore and version 2 don't have a payload, but their formats tell what they contain.
+export function getSourcePayload(keystore): KeystorePayload {
+    const payload = getPayload(keystore);
+    if (payload) {
+        return payload;
+    }
+
+    const keyJson = isValid(typeof keystore === 'string' ? keystore : JSON.stringify(keystore));
+    if (!keyJson) {
+        return null;
+    }
+    if (!keyJson.version) {
+        return { kind: 'privateKey' };
+    }
+    if (Number(keyJson.version) === 2) {
+        return { kind: 'entropy' };
+    }
+    return null;
+}
+
+// Keys of keystore JSON are lowercase.
+export function getPayloadJSON(payload: KeystorePayload) {
+    if (!isValidPayload(payload)) {
+        throw {
+            code: paramsFormat.code,
+            message: `${ paramsFormat.message } Illegal payload, kind should be 'privateKey' or 'entropy'.`
+        };
+    }
+
+    const { kind, wordlistLang, derivationRoot } = payload;
+    return {
+        kind,
+        wordlistlang: wordlistLang,
+        derivationroot: derivationRoot
+    };
+}
@@ -1,9 +1,15 @@
 const scryptsy = require('scryptsy');
 
+import { abortable } from '~@vite/vitejs-utils';
+
+import { ScryptOptions } from './type';
+
 declare const window;
 const crypto = typeof window === 'undefined' ? require('crypto') : require('browserify-aes');
 
 const TAG_LEN = 32;
+// The default maxmem of crypto.scrypt is 32MB, which isn't enough for n > 16384 when r is 8.
+const Default_Scrypt_Maxmem = 32 * 1024 * 1024;
 
 export function cipheriv({ rawText, pwd, nonce, algorithm }, additionData?: Buffer) {
     const cipher = crypto.createCipheriv(algorithm, pwd, nonce);
@@ -30,10 +36,39 @@ export function decipheriv({ algorithm, encryptPwd, nonce, encryptText }, additi
     return rawText;
 }
 
-export function encryptPwd(pwd, scryptParams, selfScryptsy) {
+// Options can be a selfScryptsy function as before. Scrypt runs by crypto.scrypt of Node.js in the thread pool,
+// or by scryptsy in chunks in browsers, so it doesn't block the event loop.
+// crypto.scrypt can't report progress or be stopped, so scryptsy in chunks is also used in Node.js when onProgress is given.
+export function encryptPwd(pwd, scryptParams, options?: Function | ScryptOptions): Promise<Buffer> {
+    const { selfScryptsy, onProgress, signal }: ScryptOptions = typeof options === 'function' ? { selfScryptsy: options } : options || {};
+
     const salt = Buffer.from(scryptParams.salt, 'hex');
-    if (!selfScryptsy) {
-        return Promise.resolve(scryptsy(pwd, Buffer.from(salt), Number(scryptParams.n), Number(scryptParams.r), Number(scryptParams.p), Number(scryptParams.keylen)));
+    const n = Number(scryptParams.n);
+    const r = Number(scryptParams.r);
+    const p = Number(scryptParams.p);
+    const keylen = Number(scryptParams.keylen);
+
+    if (selfScryptsy) {
+        return abortable(() => selfScryptsy(pwd, Array.from(salt), n, r, p, keylen), { signal });
     }
-    return selfScryptsy(pwd, Array.from(salt), Number(scryptParams.n), Number(scryptParams.r), Number(scryptParams.p), Number(scryptParams.keylen));
+
+    return abortable(throwIfAborted => {
+        if (!crypto.scrypt || onProgress) {
+            // Throwing in the progress callback stops scryptsy.
+            return scryptsy.async(pwd, salt, n, r, p, keylen, progress => {
+                throwIfAborted();
+                onProgress && onProgress(progress);
+            });
+        }
+
+        // The running crypto.scrypt isn't stopped by abort, its result is dropped.
+        return new Promise((res, rej) => {
+            crypto.scrypt(pwd, salt, keylen, { N: n, r, p, maxmem: Math.max(Default_Scrypt_Maxmem, 256 * n * r) }, (err, key) => {
+                if (err) {
+                    return rej(err);
+                }
+                return res(key);
+            });
+        });
+    }, { signal });
 }
@@ -0,0 +1,75 @@
+import { paramsFormat } from '~@vite/vitejs-error';
+import { checkParams } from '~@vite/vitejs-utils';
+
+import decrypt from './decrypt';
+import { encryptWithUUID } from './encrypt';
+import { getSourcePayload } from './payload';
+import isValid from './validated';
+import { currentVersion, strongScryptParams } from './vars';
+
+
+export function changePassword(keystore, oldPwd, newPwd, newScryptParams?, scryptOptions?) {
+    const err = checkParams({ keystore, oldPwd, newPwd }, [ 'keystore', 'oldPwd', 'newPwd' ]);
+    if (err) {
+        return Promise.reject(err);
+    }
+
+    return reEncrypt(keystore, oldPwd, newPwd, getScryptParams(newScryptParams), scryptOptions, () => true);
+}
+
+// Keystore is returned as it is if it's the current version and its scrypt params are strong enough.
+export function upgrade(keystore, pwd, newScryptParams?, scryptOptions?) {
+    const err = checkParams({ keystore, pwd }, [ 'keystore', 'pwd' ]);
+    if (err) {
+        return Promise.reject(err);
+    }
+
+    const scryptParams = getScryptParams(newScryptParams);
+    return reEncrypt(keystore, pwd, pwd, scryptParams, scryptOptions, keyJson => isUpgradeNeeded(keyJson, scryptParams));
+}
+
+
+function reEncrypt(keystore, oldPwd, newPwd, scryptParams, scryptOptions, isNeeded: (keyJson) => boolean) {
+    const keyJson = isValid(keystore);
+    if (!keyJson) {
+        return Promise.reject({
+            code: paramsFormat.code,
+            message: `${ paramsFormat.message } Illegal keystore.`
+        });
+    }
+
+    // Version 1 only keeps a hash of the password, the key must be encrypted by encryptV1ToV3 first.
+    if (Number(keyJson.version) === 1) {
+        return Promise.reject({
+            code: paramsFormat.code,
+            message: `${ paramsFormat.message } Version 1 keystore doesn't contain the key, please use encryptV1ToV3 first.`
+        });
+    }
+
+    return decrypt(keystore, oldPwd, scryptOptions).then(key => {
+        if (!isNeeded(keyJson)) {
+            return keystore;
+        }
+        return encryptWithUUID(key, newPwd, scryptParams, scryptOptions, keyJson.uuid || keyJson.id, getSourcePayload(keystore));
+    });
+}
+
+function getScryptParams(scryptParams: any = {}) {
+    return {
+        n: scryptParams.n || strongScryptParams.n,
+        r: scryptParams.r || strongScryptParams.r,
+        p: scryptParams.p || strongScryptParams.p,
+        keylen: scryptParams.keylen || strongScryptParams.keyLen,
+        salt: scryptParams.salt
+    };
+}
+
+// Memory cost of scrypt is 128 * n * r bytes, p only makes it slower.
+function isUpgradeNeeded(keyJson, scryptParams): boolean {
+    if (Number(keyJson.version) !== currentVersion) {
+        return true;
+    }
+
+    const { n, r } = keyJson.crypto.scryptparams;
+    return Number(n) * Number(r) < Number(scryptParams.n) * Number(scryptParams.r);
+}
@@ -101,6 +101,10 @@ function isValidVersion3(keyJson) {
         return false;
     }
 
+    if (typeof keyJson.payload !== 'undefined' && !isValidPayload(keyJson.payload)) {
+        return false;
+    }
+
     // Try to do
     new UUID().parse(keyJson.uuid);
     Buffer.from(crypto.ciphertext, 'hex');
@@ -110,6 +114,13 @@ function isValidVersion3(keyJson) {
     return keyJson;
 }
 
+// Payload is lowercase as the whole keystore.
+export function isValidPayload(payload) {
+    return !!payload
+        && typeof payload === 'object'
+        && [ 'privatekey', 'entropy' ].indexOf(`${ payload.kind }`.toLowerCase()) !== -1;
+}
+
 function isValidOldKeystore(keyJson) {
     // Required parameter
     if (!keyJson.id
@@ -11,4 +11,12 @@ export const defaultScryptParams = {
     r: 8,
     keyLen: 32
 };
+export const strongScryptParams = {
+    // StandardScryptN of go-ethereum, using 256MB memory and taking approximately 1s CPU time
+    // on a modern processor. It's used when the password is changed or the keystore is upgraded.
+    n: 262144,
+    p: 1,
+    r: 8,
+    keyLen: 32
+};
 export const currentVersion = 3;
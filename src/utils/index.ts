@@ -1,11 +1,11 @@
 const bn = require('bn.js');
-import { stringify } from 'qs';
+import { stringify, parse } from 'qs';
 const blake = require('blakejs/blake2b');
 
-import { paramsMissing, paramsFormat } from '~@vite/vitejs-error';
+import { paramsMissing, paramsFormat, paramsConflict, requestAborted, requestTimeout } from '~@vite/vitejs-error';
 
 import * as _e from './ed25519';
-import { Hex, TokenId } from './type';
+import { Hex, TokenId, BigInt, ViteURI, RoundingMode, RPCRequestOptions } from './type';
 
 declare const enum Charset {
     'utf16' = 'utf16',
@@ -31,6 +31,79 @@ export function uriStringify(o: {
     return str;
 }
 
+// The reverse of uriStringify. Only the shape of target_address is checked here,
+// the checksum is checked by accountBlock when the URI is turned into a transaction.
+export function uriParse(str: string): ViteURI {
+    const err = checkParams({ str }, ['str'], [{
+        name: 'str',
+        func: _s => typeof _s === 'string'
+    }]);
+    if (err) {
+        throw err;
+    }
+
+    // schema:[prefix-]target_address[@chain_id][/function_name][?params]
+    const result = /^([a-zA-Z][a-zA-Z0-9+.]*):(?:([^\-@/?]+)-)?([^@/?]*)(?:@([^/?]*))?(?:\/([^?]*))?(?:\?(.*))?$/.exec(str.trim());
+    if (!result) {
+        throw {
+            code: paramsFormat.code,
+            message: `${ paramsFormat.message } Illegal uri.`
+        };
+    }
+
+    const [ , schema, prefix, target_address, chain_id, function_name, query ] = result;
+    const params: any = query ? parse(query) : {};
+    if (typeof params.data === 'string') {
+        params.data = urlSafeBase64ToBase64(params.data);
+    }
+
+    // VEP-6 allows scientific notation such as amount=1e3, the exponent is limited to 3 digits.
+    const isDecimal = _n => typeof _n === 'string' && /^\d+(\.\d+)?([eE][+-]?\d{1,3})?$/.test(_n);
+    const paramsErr = checkParams({ ...params, target_address, chain_id, function_name }, ['target_address'], [ {
+        name: 'target_address',
+        func: _a => /^vite_[0-9a-fA-F]{50}$/.test(_a)
+    }, {
+        name: 'chain_id',
+        func: isNonNegativeInteger
+    }, {
+        name: 'function_name',
+        func: _f => /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(_f)
+    }, {
+        name: 'tti',
+        func: _t => typeof _t === 'string' && isValidTokenId(_t)
+    }, {
+        name: 'amount',
+        func: isDecimal
+    }, {
+        name: 'fee',
+        func: isDecimal
+    }, {
+        name: 'data',
+        func: _d => typeof _d === 'string' && isBase64String(_d)
+    } ]);
+    if (paramsErr) {
+        throw paramsErr;
+    }
+
+    for (const name of [ 'amount', 'fee' ]) {
+        if (typeof params[name] === 'string') {
+            params[name] = expandExponent(params[name]);
+        }
+    }
+
+    const uri: ViteURI = { schema, target_address, params };
+    if (typeof prefix !== 'undefined') {
+        uri.prefix = prefix;
+    }
+    if (chain_id) {
+        uri.chain_id = Number(chain_id);
+    }
+    if (function_name) {
+        uri.function_name = function_name;
+    }
+    return uri;
+}
+
 export function checkParams(params: Object, requiredP: Array<string> = [], validFunc: Array<{ name: string; func: Function; msg?: string }> = []): {
     code: string;
     message: string;
@@ -174,6 +247,90 @@ export function isSafeInteger(num): -1 | 0 | 1 {
     return 1;
 }
 
+// Convert a decimal string in token units to a base-unit string, such as ('1.5', 18) to '1500000000000000000'.
+// Without rounding, a value with more decimals than the token has is rejected instead of losing precision.
+export function parseUnits(value: string, decimals: number, rounding?: RoundingMode): BigInt {
+    const err = checkParams({ value, decimals, rounding }, [ 'value', 'decimals' ], [ {
+        name: 'value',
+        func: _v => /^-?(\d+(\.\d*)?|\.\d+)$/.test(`${ _v }`.trim())
+    }, {
+        name: 'decimals',
+        func: isNonNegativeInteger
+    }, {
+        name: 'rounding',
+        func: isRoundingMode
+    } ]);
+    if (err) {
+        throw err;
+    }
+
+    const _value = `${ value }`.trim();
+    const isNegative = _value[0] === '-';
+    const [ integer, fraction = '' ] = _value.replace('-', '').split('.');
+    const _decimals = Number(decimals);
+
+    let result = new bn(`${ integer }${ fraction }` || '0');
+    if (fraction.length <= _decimals) {
+        result = result.mul(new bn(10).pow(new bn(_decimals - fraction.length)));
+    } else if (!rounding && /[1-9]/.test(fraction.slice(_decimals))) {
+        throw {
+            code: paramsConflict.code,
+            message: `${ paramsConflict.message } ${ value } has more than ${ decimals } decimals.`
+        };
+    } else {
+        result = divRound(result, new bn(10).pow(new bn(fraction.length - _decimals)), rounding || 'down');
+    }
+
+    return isNegative && !result.isZero() ? `-${ result.toString() }` : result.toString();
+}
+
+// Convert a base-unit string to a decimal string in token units, such as ('1500000000000000000', 18) to '1.5'.
+// Trailing zeros are removed unless decimalPlaces is set.
+export function formatUnits(value: BigInt, decimals: number, { decimalPlaces, rounding = 'down', thousandsSeparator = '' }: {
+    decimalPlaces?: number; rounding?: RoundingMode; thousandsSeparator?: string;
+} = {}): string {
+    const err = checkParams({ value, decimals, decimalPlaces, rounding }, [ 'value', 'decimals' ], [ {
+        name: 'value',
+        func: isInteger
+    }, {
+        name: 'decimals',
+        func: isNonNegativeInteger
+    }, {
+        name: 'decimalPlaces',
+        func: isNonNegativeInteger
+    }, {
+        name: 'rounding',
+        func: isRoundingMode
+    } ]);
+    if (err) {
+        throw err;
+    }
+
+    const _value = `${ value }`;
+    const isNegative = _value[0] === '-';
+    const _decimals = Number(decimals);
+    const hasDecimalPlaces = typeof decimalPlaces !== 'undefined';
+
+    let result = new bn(_value.replace('-', ''));
+    let scale = _decimals;
+    if (hasDecimalPlaces && Number(decimalPlaces) < _decimals) {
+        scale = Number(decimalPlaces);
+        result = divRound(result, new bn(10).pow(new bn(_decimals - scale)), rounding);
+    }
+
+    const digits = result.toString().padStart(scale + 1, '0');
+    const integer = digits.slice(0, digits.length - scale).replace(/\B(?=(\d{3})+(?!\d))/g, thousandsSeparator);
+    let fraction = digits.slice(digits.length - scale);
+    if (hasDecimalPlaces) {
+        fraction = fraction.padEnd(Number(decimalPlaces), '0');
+    } else {
+        fraction = fraction.replace(/0+$/, '');
+    }
+
+    const sign = isNegative && !result.isZero() ? '-' : '';
+    return `${ sign }${ integer }${ fraction ? `.${ fraction }` : '' }`;
+}
+
 export function isHexString(str: string): Boolean {
     return /^[0-9a-fA-F]+$/.test(str);
 }
@@ -186,6 +343,60 @@ export function isBase64String(str): Boolean {
     return base64Pattern.test(str);
 }
 
+// Reject when the signal is aborted or after timeout ms. Steps which can't be undone, such as sending a transaction,
+// should call `throwIfAborted` first, because `run` isn't stopped by itself.
+export function abortable<T>(run: (throwIfAborted: () => void) => Promise<T>, { signal, timeout }: RPCRequestOptions = {}): Promise<T> {
+    if (signal && signal.aborted) {
+        return Promise.reject(requestAborted);
+    }
+
+    return new Promise((res, rej) => {
+        let error = null;
+        let timer = null;
+
+        const clear = () => {
+            timer && clearTimeout(timer);
+            timer = null;
+            signal && signal.removeEventListener('abort', onAbort);
+        };
+        const stop = err => {
+            error = err;
+            clear();
+            rej(err);
+        };
+        const onAbort = () => stop(requestAborted);
+        const throwIfAborted = () => {
+            if (error) {
+                throw error;
+            }
+        };
+
+        signal && signal.addEventListener('abort', onAbort);
+        if (timeout) {
+            timer = setTimeout(() => stop(requestTimeout), timeout);
+        }
+
+        let promise: Promise<T>;
+        try {
+            promise = Promise.resolve(run(throwIfAborted));
+        } catch (err) {
+            promise = Promise.reject(err);
+        }
+
+        promise.then(data => {
+            if (!error) {
+                clear();
+                res(data);
+            }
+        }, err => {
+            if (!error) {
+                clear();
+                rej(err);
+            }
+        });
+    });
+}
+
 export const blake2b = blake.blake2b;
 
 export const blake2bHex = blake.blake2bHex;
@@ -194,6 +405,49 @@ export const _Buffer = Buffer;
 
 export const _bn = bn;
 
+function isRoundingMode(rounding: string): boolean {
+    return [ 'down', 'up', 'halfUp', 'halfEven' ].indexOf(rounding) !== -1;
+}
+
+// Divide non-negative n by d, rounding the remainder by mode.
+function divRound(n, d, rounding: RoundingMode) {
+    const quotient = n.div(d);
+    const remainder = n.mod(d);
+    if (remainder.isZero() || rounding === 'down') {
+        return quotient;
+    }
+
+    const half = remainder.muln(2).cmp(d);
+    const isUp = rounding === 'up'
+        || (rounding === 'halfUp' && half >= 0)
+        || (rounding === 'halfEven' && (half > 0 || (half === 0 && quotient.isOdd())));
+    return isUp ? quotient.addn(1) : quotient;
+}
+
+// Such as '1.5e3' => '1500', '1e-3' => '0.001'.
+function expandExponent(str: string): string {
+    const result = /^(\d+)(?:\.(\d+))?[eE]([+-]?\d+)$/.exec(str);
+    if (!result) {
+        return str;
+    }
+
+    const [ , integer, fraction = '', exponent ] = result;
+    const digits = `${ integer }${ fraction }`;
+    const pointIndex = integer.length + Number(exponent);
+    if (pointIndex <= 0) {
+        return `0.${ '0'.repeat(-pointIndex) }${ digits }`;
+    }
+    if (pointIndex >= digits.length) {
+        return `${ digits }${ '0'.repeat(pointIndex - digits.length) }`;
+    }
+    return `${ digits.slice(0, pointIndex) }.${ digits.slice(pointIndex) }`;
+}
+
+function urlSafeBase64ToBase64(str: string): string {
+    const base64 = str.replace(/-/g, '+').replace(/_/g, '/');
+    return base64.length % 4 ? base64 + '='.repeat(4 - base64.length % 4) : base64;
+}
+
 function getTokenIdCheckSum(originalTokenId: Hex): Hex {
     return blake.blake2bHex(Buffer.from(originalTokenId, 'hex'), null, 2);
 }
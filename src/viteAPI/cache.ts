@@ -0,0 +1,145 @@
+import { checkParams, isArray, isNonNegativeInteger } from '~@vite/vitejs-utils';
+
+import { RPCRequest, RPCResponse, RPCMiddleware, RPCCacheStore, RPCCachePolicy } from './type';
+
+
+// Results of these methods don't change once they are returned, except token info of re-issuable tokens.
+// AccountBlocks may be rolled back until they are confirmed, and `confirmations` and `receiveBlockHash` of them keep changing,
+// so they expire with the snapshot chain.
+export const Default_Cache_Policies: { [methodName: string]: RPCCachePolicy } = {
+    ledger_getAccountBlockByHash: { minConfirmations: 100, maxHeightAge: 10 },
+    ledger_getAccountBlockByHeight: { minConfirmations: 100, maxHeightAge: 10 },
+    contract_getContractInfo: {},
+    contract_getTokenInfoById: { isCacheable: result => !result.isReIssuable }
+};
+
+class LRUStoreClass implements RPCCacheStore {
+    readonly maxSize: number
+    private entries: { [key: string]: any }
+    private size: number
+
+    constructor({ maxSize = 1000 }: { maxSize?: number } = {}) {
+        const err = checkParams({ maxSize }, ['maxSize'], [{
+            name: 'maxSize',
+            func: _s => isNonNegativeInteger(_s) && _s > 0
+        }]);
+        if (err) {
+            throw err;
+        }
+
+        this.maxSize = maxSize;
+        this.clear();
+    }
+
+    get(key: string) {
+        if (!Object.prototype.hasOwnProperty.call(this.entries, key)) {
+            return undefined;
+        }
+
+        // Move to the end as the most recently used.
+        const value = this.entries[key];
+        delete this.entries[key];
+        this.entries[key] = value;
+        return value;
+    }
+
+    set(key: string, value: any) {
+        if (Object.prototype.hasOwnProperty.call(this.entries, key)) {
+            delete this.entries[key];
+            this.size--;
+        }
+
+        this.entries[key] = value;
+        this.size++;
+
+        // Keys are kept in insertion order, the first one is the least recently used.
+        for (const _k in this.entries) {
+            if (this.size <= this.maxSize) {
+                break;
+            }
+            delete this.entries[_k];
+            this.size--;
+        }
+    }
+
+    delete(key: string) {
+        if (Object.prototype.hasOwnProperty.call(this.entries, key)) {
+            delete this.entries[key];
+            this.size--;
+        }
+    }
+
+    clear() {
+        this.entries = {};
+        this.size = 0;
+    }
+}
+
+// Cache results of requests by policies of method names. Batches and notifications are not cached.
+// An entry with `maxHeightAge` is expired when the snapshot chain grows more than `maxHeightAge` after it's cached.
+export function cache({ store = new LRUStoreClass(), policies = Default_Cache_Policies, snapshotHeightTTL = 1000 }: {
+    store?: RPCCacheStore; policies?: { [methodName: string]: RPCCachePolicy }; snapshotHeightTTL?: number;
+} = {}): RPCMiddleware {
+    let snapshotHeight: Promise<number> = null;
+    let snapshotHeightTime = 0;
+
+    const getSnapshotHeight = (next: (req: RPCRequest) => Promise<any>): Promise<number> => {
+        if (!snapshotHeight || Date.now() - snapshotHeightTime >= snapshotHeightTTL) {
+            snapshotHeightTime = Date.now();
+            snapshotHeight = next({ type: 'request', methodName: 'ledger_getSnapshotChainHeight', params: [] })
+                .then((rep: RPCResponse) => Number(rep.result));
+
+            snapshotHeight.catch(() => {
+                snapshotHeight = null;
+            });
+        }
+        return snapshotHeight;
+    };
+
+    return async (req, next) => {
+        const policy: RPCCachePolicy = isArray(req) ? null : policies[(req as RPCRequest).methodName];
+        if (!policy || (req as RPCRequest).type === 'notification') {
+            return next(req);
+        }
+
+        const { methodName, params } = req as RPCRequest;
+        const key = `${ methodName }:${ JSON.stringify(params || []) }`;
+        const hasHeightAge = typeof policy.maxHeightAge === 'number';
+
+        const entry = await store.get(key);
+        if (entry) {
+            if (!hasHeightAge || await getSnapshotHeight(next) - entry.snapshotHeight <= policy.maxHeightAge) {
+                return { jsonrpc: '2.0', result: copy(entry.result) };
+            }
+            await store.delete(key);
+        }
+
+        const rep: RPCResponse = await next(req);
+        if (!rep || rep.error || !isCacheable(policy, rep.result, params)) {
+            return rep;
+        }
+
+        await store.set(key, {
+            result: copy(rep.result),
+            snapshotHeight: hasHeightAge ? await getSnapshotHeight(next) : undefined
+        });
+        return rep;
+    };
+}
+
+// Callers may change results in place, such as getTransactionList, so the store never shares objects with them.
+function copy(result: any): any {
+    return JSON.parse(JSON.stringify(result));
+}
+
+function isCacheable(policy: RPCCachePolicy, result: any, params: any[]): boolean {
+    if (result === null || result === undefined) {
+        return false;
+    }
+    if (typeof policy.minConfirmations === 'number' && !(Number(result.confirmations) > policy.minConfirmations)) {
+        return false;
+    }
+    return !policy.isCacheable || policy.isCacheable(result, params);
+}
+
+export const LRUStore = LRUStoreClass;
@@ -0,0 +1,133 @@
+import { Vite_TokenId } from '~@vite/vitejs-constant';
+import { checkParams, isArray } from '~@vite/vitejs-utils';
+import { isValidAddress, AddressType } from '~@vite/vitejs-wallet/address';
+import { getTypes } from '~@vite/vitejs-abi';
+import Transaction from '~@vite/vitejs-accountblock/transaction';
+import AccountBlock from '~@vite/vitejs-accountblock/accountBlock';
+
+import { Address, Base64, BigInt, TokenId, Uint64, ViteAPI } from './type';
+
+
+class ContractClass {
+    readonly address: Address
+    readonly abi: Array<any>
+    readonly code: Base64
+    readonly methods: { [name: string]: Function }
+    readonly query: { [name: string]: Function }
+    readonly events: { [name: string]: { subscribe: Function } }
+    private viteAPI: ViteAPI
+    private transaction: Transaction
+
+    constructor({ address, abi, code }: {
+        address: Address; abi: Object | Array<Object>; code?: Base64;
+    }, viteAPI: ViteAPI) {
+        const err = checkParams({ address, abi, viteAPI }, [ 'address', 'abi', 'viteAPI' ], [{
+            name: 'address',
+            func: _a => isValidAddress(_a) === AddressType.Contract
+        }]);
+        if (err) {
+            throw err;
+        }
+
+        this.address = address;
+        this.abi = isArray(abi) ? abi as Array<any> : [abi];
+        this.code = code;
+        this.viteAPI = viteAPI;
+        this.transaction = null;
+
+        this.methods = {};
+        this.query = {};
+        this.events = {};
+
+        // Overloaded methods share one name, and are distinguished by the length of params.
+        const functionList = getJsonInterfaceList(this.abi, 'function');
+        for (const name in functionList) {
+            this.methods[name] = (...params) => {
+                const jsonInterface = getJsonInterface(functionList[name], params);
+                return {
+                    getAccountBlock: (options = {}) => this.getAccountBlock(jsonInterface, params, options),
+                    send: (options = {}) => this.getAccountBlock(jsonInterface, params, options).autoSendByPoW()
+                };
+            };
+        }
+
+        const offchainList = getJsonInterfaceList(this.abi, 'offchain');
+        for (const name in offchainList) {
+            this.query[name] = (...params) => {
+                const jsonInterface = getJsonInterface(offchainList[name], params);
+                return this.viteAPI.callOffChainContract({ address: this.address, abi: jsonInterface, code: this.code, params });
+            };
+        }
+
+        const eventList = getJsonInterfaceList(this.abi, 'event');
+        for (const name in eventList) {
+            const subscribe = (fromHeight?: Uint64) => this.viteAPI.subscribeToEvents({
+                address: this.address,
+                abi: eventList[name],
+                eventName: name,
+                fromHeight
+            });
+            this.events[name] = { subscribe };
+        }
+    }
+
+    setTransaction(transaction: Transaction): ContractClass {
+        const err = checkParams({ transaction }, ['transaction'], [{
+            name: 'transaction',
+            func: _t => _t instanceof Transaction
+        }]);
+        if (err) {
+            throw err;
+        }
+
+        this.transaction = transaction;
+        return this;
+    }
+
+    private getAccountBlock(jsonInterface, params, { tokenId = Vite_TokenId, amount = '0', fee = '0' }: {
+        tokenId?: TokenId; amount?: BigInt; fee?: BigInt;
+    }): AccountBlock {
+        if (!this.transaction) {
+            throw new Error('[Error] Please set transaction before sending, contract.setTransaction(transaction).');
+        }
+
+        const accountBlock: AccountBlock = this.transaction.callContract({
+            toAddress: this.address,
+            abi: jsonInterface,
+            params,
+            tokenId,
+            amount,
+            fee
+        });
+        return accountBlock.setProvider(this.viteAPI);
+    }
+}
+
+function getJsonInterfaceList(abi: Array<any>, type: string): { [name: string]: Array<any> } {
+    const list = {};
+    abi.forEach(jsonInterface => {
+        if (!jsonInterface || jsonInterface.type !== type || !jsonInterface.name) {
+            return;
+        }
+
+        // Check types of inputs
+        getTypes(jsonInterface);
+
+        list[jsonInterface.name] = list[jsonInterface.name] || [];
+        list[jsonInterface.name].push(jsonInterface);
+    });
+    return list;
+}
+
+function getJsonInterface(jsonInterfaceList: Array<any>, params: any[]) {
+    const jsonInterface = jsonInterfaceList.find(_j => getTypes(_j).length === params.length);
+    if (jsonInterface) {
+        return jsonInterface;
+    }
+
+    const lengthList = jsonInterfaceList.map(_j => getTypes(_j).length);
+    throw new Error(`[Error] Illegal params of ${ jsonInterfaceList[0].name }. Params.length should be ${ lengthList.join(' or ') }, but got ${ params.length }.`);
+}
+
+export const Contract = ContractClass;
+export default ContractClass;
@@ -1,17 +1,33 @@
+import { isArray } from '~@vite/vitejs-utils';
+
 import { ProviderType } from './type';
 
 class EventEmitter {
-    readonly id: string
+    id: string
     readonly isSubscribe: boolean
+    readonly methodName: string
+    readonly params: any[]
+    latestHeight: number
+    replayingHeights: { [height: string]: boolean }
+    _id: number
     private provider: ProviderType
     private timeLoop: any
     private callback: Function
+    private resubscribedCallback: Function
+    private formatter: Function
 
-    constructor(id: string, provider: ProviderType, isSubscribe: boolean) {
+    constructor(id: string, provider: ProviderType, isSubscribe: boolean, methodName?: string, params: any[] = []) {
         this.id = id;
         this.callback = null;
+        this.resubscribedCallback = null;
+        this.formatter = null;
         this.provider = provider;
         this.isSubscribe = isSubscribe;
+        this.methodName = methodName;
+        this.params = params;
+        // Null until the height of the account is known.
+        this.latestHeight = null;
+        this.replayingHeights = null;
 
         this.timeLoop = null;
     }
@@ -20,13 +36,49 @@ class EventEmitter {
         this.callback = callback;
     }
 
+    onResubscribed(callback: Function) {
+        this.resubscribedCallback = callback;
+    }
+
+    // Format result before emitting, such as decoding vmlogs. Result formatted to null will be dropped.
+    setFormatter(formatter: Function) {
+        this.formatter = formatter;
+    }
+
     off() {
         this.stopLoop();
         this.provider.unsubscribe(this);
     }
 
-    emit(result) {
-        this.callback && this.callback(result);
+    emit(data) {
+        let result = data;
+
+        // Remember the height of the latest accountBlock, it is where to replay from after reconnecting.
+        // While replaying, both the new subscription and the replay emit accountBlocks, each height is emitted once.
+        if (this.methodName === 'createAccountBlockSubscriptionByAddress' && isArray(data)) {
+            result = data.filter(({ height, removed }) => removed || !this.replayingHeights || !this.replayingHeights[height]);
+            if (data.length && !result.length) {
+                return;
+            }
+
+            result.forEach(({ height, removed }) => {
+                this.latestHeight = Math.max(this.latestHeight || 0, Number(height) || 0);
+                !removed && this.replayingHeights && (this.replayingHeights[height] = true);
+            });
+        }
+
+        const _result = this.formatter ? this.formatter(result) : result;
+        if (_result === null) {
+            return;
+        }
+        this.callback && this.callback(_result);
+    }
+
+    emitResubscribed(result: { status: 'ok' | 'error'; id?: string; previousId?: string; error?: any }) {
+        this.resubscribedCallback && this.resubscribedCallback({
+            timestamp: new Date().getTime(),
+            ...result
+        });
     }
 
     startLoop(cb: Function, time = 2000) {
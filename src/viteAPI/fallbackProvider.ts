@@ -0,0 +1,269 @@
+import { checkParams, isArray } from '~@vite/vitejs-utils';
+
+import { RPCRequest, RPCRequestOptions, Methods } from './type';
+
+type Endpoint = {
+    provider: any;
+    weight: number;
+    currentWeight: number;
+    healthy: boolean;
+}
+
+// A transaction, and subscriptions(or filters) created on a node, should be sent to the same node.
+const Pinned_Methods = ['ledger_sendRawTransaction'];
+
+// Net API may be disabled on some nodes, so net_syncInfo is only checked when it's available. State 2 is sync done.
+const Sync_Done_State = 2;
+
+
+class FallbackProviderClass {
+    readonly type: string
+    connectStatus: boolean
+    subscribe: (callback: Function) => void
+    unsubscribe: () => void
+    private endpoints: Endpoint[]
+    private pinned: Endpoint
+    private maxHeightLag: number
+    private healthCheckTimer: any
+    private listeners: { [type: string]: { cb: Function; isInternal: boolean }[] }
+
+    constructor(providers: Array<any>, { healthCheckInterval = 30000, maxHeightLag = 10 }: {
+        healthCheckInterval?: number; maxHeightLag?: number;
+    } = {}) {
+        const err = checkParams({ providers }, ['providers'], [{
+            name: 'providers',
+            func: _p => isArray(_p) && _p.length
+        }]);
+        if (err) {
+            throw err;
+        }
+
+        // Provider can be HTTP_RPC, WS_RPC, IPC_RPC instance, or { provider, weight }.
+        this.endpoints = providers.map(_p => {
+            const provider = _p && _p.provider ? _p.provider : _p;
+            const weight = _p && _p.provider && _p.weight ? Number(_p.weight) : 1;
+            return { provider, weight, currentWeight: 0, healthy: true };
+        });
+
+        this.type = this.endpoints.every(_e => _e.provider.type === 'http') ? 'http' : 'fallback';
+        this.connectStatus = this.endpoints.some(_e => isConnected(_e));
+        this.pinned = null;
+        this.maxHeightLag = maxHeightLag;
+        this.healthCheckTimer = null;
+        this.listeners = {};
+
+        this.endpoints.forEach(endpoint => this.listen(endpoint));
+
+        // Notifications come from the pinned node, which is one of the nodes supporting subscribe.
+        const subscribeEndpoints = this.endpoints.filter(_e => _e.provider.subscribe);
+        if (subscribeEndpoints.length) {
+            this.subscribe = callback => subscribeEndpoints.forEach(_e => _e.provider.subscribe(callback));
+            this.unsubscribe = () => subscribeEndpoints.forEach(_e => _e.provider.unsubscribe && _e.provider.unsubscribe());
+        }
+
+        healthCheckInterval && this.startHealthCheck(healthCheckInterval);
+    }
+
+    request(methodName: Methods, params: any[], options?: RPCRequestOptions) {
+        return this.send(isPinnedMethod(methodName), provider => provider.request(methodName, params, options), options);
+    }
+
+    sendNotification(methodName: Methods, params: any[]) {
+        return this.send(false, provider => provider.sendNotification(methodName, params));
+    }
+
+    batch(requests: RPCRequest[] = [], options?: RPCRequestOptions) {
+        const isPinned = requests.some(_r => _r && isPinnedMethod(_r.methodName));
+        return this.send(isPinned, provider => provider.batch(requests, options), options);
+    }
+
+    abort(...args) {
+        this.endpoints.forEach(_e => {
+            _e.provider.abort && _e.provider.abort(...args);
+        });
+    }
+
+    on(type: string, cb: Function) {
+        this.listeners[type] = this.listeners[type] || [];
+        this.listeners[type].push({ cb, isInternal: false });
+    }
+
+    // Listeners of ViteAPI, such as resubscribing after reconnecting, are kept by `remove(type)` without cb.
+    onInternal(type: string, cb: Function) {
+        this.listeners[type] = this.listeners[type] || [];
+        this.listeners[type].push({ cb, isInternal: true });
+    }
+
+    remove(type: string, cb?: Function) {
+        this.listeners[type] = (this.listeners[type] || []).filter(_l => (cb ? _l.cb !== cb : _l.isInternal));
+    }
+
+    // A node is unhealthy if it can't be connected, it's syncing, or its snapshot height lags behind others.
+    async checkHealth(): Promise<void> {
+        const heights = await Promise.all(this.endpoints.map(_e => getSnapshotHeight(_e)));
+        const maxHeight = Math.max(0, ...heights.filter(_h => _h !== null));
+
+        this.endpoints.forEach((endpoint, i) => {
+            endpoint.healthy = heights[i] !== null && maxHeight - heights[i] <= this.maxHeightLag;
+        });
+        this.updateStatus();
+    }
+
+    startHealthCheck(interval = 30000) {
+        this.stopHealthCheck();
+
+        const loop = () => {
+            this.healthCheckTimer = setTimeout(() => {
+                this.checkHealth().then(() => {
+                    this.healthCheckTimer && loop();
+                });
+            }, interval);
+
+            // Don't keep Node.js process running.
+            this.healthCheckTimer.unref && this.healthCheckTimer.unref();
+        };
+        loop();
+    }
+
+    stopHealthCheck() {
+        this.healthCheckTimer && clearTimeout(this.healthCheckTimer);
+        this.healthCheckTimer = null;
+    }
+
+    // Fail over to the next node when timeout or connection error. Errors returned by node, or after the request is aborted,
+    // are thrown directly.
+    private async send(isPinned: boolean, sendTo: (provider: any) => any, { signal }: RPCRequestOptions = {}) {
+        const triedList: Endpoint[] = [];
+        let error = null;
+
+        for (;;) {
+            const endpoint = this.getEndpoint(isPinned, triedList);
+            if (!endpoint) {
+                throw error || new Error('[Error] No provider is available.');
+            }
+            triedList.push(endpoint);
+
+            try {
+                return await sendTo(endpoint.provider);
+            } catch (err) {
+                if (isNodeError(err) || (signal && signal.aborted)) {
+                    throw err;
+                }
+                error = err;
+                endpoint.healthy = false;
+                this.updateStatus();
+            }
+        }
+    }
+
+    private getEndpoint(isPinned: boolean, triedList: Endpoint[]): Endpoint {
+        const untried = this.endpoints.filter(_e => triedList.indexOf(_e) === -1 && isConnected(_e));
+        const healthyList = untried.filter(_e => _e.healthy);
+        // Try unhealthy nodes at last, they may have recovered.
+        const candidates = healthyList.length ? healthyList : untried;
+        if (!candidates.length) {
+            return null;
+        }
+
+        if (isPinned) {
+            if (this.pinned && candidates.indexOf(this.pinned) !== -1) {
+                return this.pinned;
+            }
+            const subscribeList = this.subscribe ? candidates.filter(_e => _e.provider.subscribe) : [];
+            const list = subscribeList.length ? subscribeList : candidates;
+            this.pinned = list.reduce((pinned, _e) => (_e.weight > pinned.weight ? _e : pinned), list[0]);
+            return this.pinned;
+        }
+
+        // Smooth weighted round-robin
+        let totalWeight = 0;
+        let best: Endpoint = null;
+        candidates.forEach(_e => {
+            totalWeight += _e.weight;
+            _e.currentWeight += _e.weight;
+            best = !best || _e.currentWeight > best.currentWeight ? _e : best;
+        });
+        best.currentWeight -= totalWeight;
+        return best;
+    }
+
+    private listen(endpoint: Endpoint) {
+        const provider = endpoint.provider;
+        if (!provider.on || provider.type === 'http') {
+            return;
+        }
+
+        // Custom providers without `onInternal` only have `on`.
+        const on = (provider.onInternal || provider.on).bind(provider);
+        on('connect', () => {
+            endpoint.healthy = true;
+            this.updateStatus();
+        });
+        on('close', () => {
+            this.updateStatus();
+        });
+    }
+
+    // Lost the pinned node means subscriptions are lost, emit close and connect to let ViteAPI resubscribe.
+    private updateStatus() {
+        const pinned = this.pinned;
+        if (pinned && !(pinned.healthy && isConnected(pinned))) {
+            this.pinned = null;
+        }
+
+        const connectStatus = this.endpoints.some(_e => isConnected(_e));
+        if (this.connectStatus && (!connectStatus || (pinned && !this.pinned))) {
+            this.connectStatus = false;
+            this.emit('close');
+        }
+        if (!this.connectStatus && connectStatus) {
+            this.connectStatus = true;
+            this.emit('connect');
+        }
+    }
+
+    private emit(type: string) {
+        (this.listeners[type] || []).slice().forEach(_l => _l.cb());
+    }
+}
+
+function isPinnedMethod(methodName: string): boolean {
+    return Pinned_Methods.indexOf(methodName) !== -1 || methodName.indexOf('subscribe_') === 0;
+}
+
+function isConnected(endpoint: Endpoint): boolean {
+    return endpoint.provider.type === 'http' || !!endpoint.provider.connectStatus;
+}
+
+// Node returns a response with error, others are timeout or connection errors.
+function isNodeError(err): boolean {
+    return !!err && !!err.error;
+}
+
+async function getSnapshotHeight(endpoint: Endpoint): Promise<number> {
+    if (!isConnected(endpoint)) {
+        return null;
+    }
+
+    try {
+        const [ heightRep, syncInfoRep ] = await Promise.all([
+            endpoint.provider.request('ledger_getSnapshotChainHeight', []),
+            endpoint.provider.request('net_syncInfo', []).catch(err => {
+                if (isNodeError(err)) {
+                    return null;
+                }
+                throw err;
+            })
+        ]);
+
+        if (syncInfoRep && syncInfoRep.result && Number(syncInfoRep.result.state) !== Sync_Done_State) {
+            return null;
+        }
+        return Number(heightRep.result);
+    } catch (err) {
+        return null;
+    }
+}
+
+export const FallbackProvider = FallbackProviderClass;
+export default FallbackProvider;
@@ -1,22 +1,31 @@
 import { Contracts } from '~@vite/vitejs-constant';
-import { checkParams, isArray, blake2bHex } from '~@vite/vitejs-utils';
-import { isValidAddress, AddressType, getOriginalAddressFromAddress } from '~@vite/vitejs-wallet/address';
-import { decodeParameters, encodeFunctionCall, getAbiByType } from '~@vite/vitejs-abi';
+import { checkParams, isArray, isNonNegativeInteger } from '~@vite/vitejs-utils';
+import { isValidAddress, AddressType } from '~@vite/vitejs-wallet/address';
+import { decodeLog, decodeParameters, encodeFunctionCall, encodeLogSignature, getAbiByType } from '~@vite/vitejs-abi';
 import { Default_Contract_TransactionType, encodeContractList, getTransactionType, decodeContractAccountBlock } from '~@vite/vitejs-accountblock/utils';
+import { getPoWNonceHash, RPCPoWSolver } from '~@vite/vitejs-accountblock/pow';
 
-import { Address, AccountBlockType, Transaction, Hex, Base64, BigInt } from './type';
+import { Address, AccountBlockType, Transaction, Hex, Base64, BigInt, Uint64, PoWSolverType, VmLogEvent, AccountInfo, UnreceivedSummary, AbortSignalLike } from './type';
 
 import Provider from './provider';
+import Contract from './contract';
+import EventEmitter from './eventEmitter';
+import FallbackProvider from './fallbackProvider';
+import * as middleware from './middleware';
+import MockLedgerProvider from './mockLedgerProvider';
+import TokenRegistry from './tokenRegistry';
 
 
 class ViteAPIClass extends Provider {
     private customTransactionType: Object
+    private powSolver: PoWSolverType
 
     constructor(provider: any, onInitCallback: Function) {
         super(provider, onInitCallback);
 
         // { [funcSign + contractAddress]: { contractAddress, abi, transactionType } }
         this.customTransactionType = {};
+        this.powSolver = null;
     }
 
     get transactionType() {
@@ -38,7 +47,7 @@ class ViteAPIClass extends Provider {
         this.customTransactionType = Object.assign({}, this.customTransactionType, transactionTypeAfterEncode);
     }
 
-    async getBalanceInfo(address: Address): Promise<{ balance: Object; unreceived: Object }> {
+    async getBalanceInfo(address: Address): Promise<{ balance: AccountInfo; unreceived: UnreceivedSummary }> {
         const err = checkParams({ address }, ['address'], [{
             name: 'address',
             func: isValidAddress
@@ -75,8 +84,8 @@ class ViteAPIClass extends Provider {
         };
     }
 
-    async getTransactionList({ address, pageIndex, pageSize = 50 }: {
-        address: Address; pageIndex: number; pageSize?: number;
+    async getTransactionList({ address, pageIndex, pageSize = 50, signal, timeout }: {
+        address: Address; pageIndex: number; pageSize?: number; signal?: AbortSignalLike; timeout?: number;
     }, decodeTxTypeList: 'all' | string[] = 'all'): Promise<Transaction[]> {
         const err = checkParams({ address, pageIndex, decodeTxTypeList }, [ 'address', 'pageIndex' ], [ {
             name: 'address',
@@ -93,7 +102,7 @@ class ViteAPIClass extends Provider {
         }
 
         pageIndex = pageIndex >= 0 ? pageIndex : 0;
-        const data = await this.request('ledger_getAccountBlocksByAddress', address, pageIndex, pageSize);
+        const data = await this.requestWithOptions({ signal, timeout }, 'ledger_getAccountBlocksByAddress', address, pageIndex, pageSize);
         const rawList = data || [];
 
         const list: Transaction[] = [];
@@ -152,6 +161,97 @@ class ViteAPIClass extends Provider {
         return decodeParameters(offchainAbi.outputs, hexResult);
     }
 
+    async subscribeToEvents({ address, abi, eventName, fromHeight = '0' }: {
+        address: Address; abi: Object | Array<Object>; eventName?: string; fromHeight?: Uint64;
+    }): Promise<EventEmitter> {
+        const err = checkParams({ address, abi }, [ 'address', 'abi' ], [{
+            name: 'address',
+            func: _a => isValidAddress(_a) === AddressType.Contract
+        }]);
+        if (err) {
+            throw err;
+        }
+
+        const eventList = getEventList(abi, eventName);
+        const isAnonymous = !!eventList.find(_e => _e.anonymous);
+
+        // HTTP provider doesn't support subscription, Provider will poll by subscribe_createVmlogFilter.
+        const event: EventEmitter = await this.subscribe('createVmlogSubscription', {
+            addressHeightRange: { [address]: { fromHeight: `${ fromHeight }`, toHeight: '0' } },
+            topics: isAnonymous ? [] : [eventList.map(_e => encodeLogSignature(_e))]
+        });
+
+        event.setFormatter(result => {
+            const list = decodeVmlogList(eventList, isArray(result) ? result : [result]);
+            return list.length ? list : null;
+        });
+        return event;
+    }
+
+    async getPastEvents({ address, abi, eventName, fromHeight = '1', toHeight = '0', topics = [], pageSize = 1000 }: {
+        address: Address; abi: Object | Array<Object>; eventName?: string; fromHeight?: Uint64; toHeight?: Uint64; topics?: Array<Hex[]>; pageSize?: number;
+    }): Promise<VmLogEvent[]> {
+        const err = checkParams({ address, abi, fromHeight, toHeight, topics, pageSize }, [ 'address', 'abi' ], [ {
+            name: 'address',
+            func: _a => isValidAddress(_a) === AddressType.Contract
+        }, {
+            name: 'fromHeight',
+            func: isNonNegativeInteger
+        }, {
+            name: 'toHeight',
+            func: isNonNegativeInteger
+        }, {
+            name: 'topics',
+            func: isArray
+        }, {
+            name: 'pageSize',
+            func: _p => isNonNegativeInteger(_p) && _p > 0
+        } ]);
+        if (err) {
+            throw err;
+        }
+
+        const eventList = getEventList(abi, eventName);
+        const isAnonymous = !!eventList.find(_e => _e.anonymous);
+
+        // toHeight 0 means the latest accountBlock
+        let _toHeight = Number(toHeight);
+        if (!_toHeight) {
+            const latestAccountBlock: AccountBlockType = await this.request('ledger_getLatestAccountBlock', address);
+            if (!latestAccountBlock) {
+                return [];
+            }
+            _toHeight = Number(latestAccountBlock.height);
+        }
+
+        const filterTopics = isAnonymous ? topics : [ eventList.map(_e => encodeLogSignature(_e)), ...topics ];
+        let vmlogList = [];
+        for (let _fromHeight = Math.max(Number(fromHeight), 1); _fromHeight <= _toHeight; _fromHeight += pageSize) {
+            const data = await this.request('ledger_getVmlogsByFilter', {
+                addressHeightRange: {
+                    [address]: {
+                        fromHeight: `${ _fromHeight }`,
+                        toHeight: `${ Math.min(_fromHeight + pageSize - 1, _toHeight) }`
+                    }
+                },
+                topics: filterTopics
+            });
+            vmlogList = vmlogList.concat(data || []);
+        }
+
+        return decodeVmlogList(eventList, vmlogList).sort((a, b) => Number(a.height) - Number(b.height));
+    }
+
+    contract({ address, abi, code }: {
+        address: Address; abi: Object | Array<Object>; code?: Base64;
+    }): Contract {
+        return new Contract({ address, abi, code }, this);
+    }
+
+    setPoWSolver(powSolver: PoWSolverType) {
+        this.powSolver = powSolver;
+    }
+
     async getNonce({ difficulty, previousHash, address }: {
         difficulty: BigInt;
         previousHash: Hex;
@@ -162,13 +262,45 @@ class ViteAPIClass extends Provider {
             throw err;
         }
 
-        const originalAddress = getOriginalAddressFromAddress(address);
-        const getNonceHashBuffer = Buffer.from(originalAddress + previousHash, 'hex');
-        const getNonceHash = blake2bHex(getNonceHashBuffer, null, 32);
+        const powSolver: PoWSolverType = this.powSolver || new RPCPoWSolver(this);
+        return powSolver.getNonce({
+            difficulty,
+            dataHash: getPoWNonceHash({ address, previousHash })
+        });
+    }
+}
 
-        return this.request('util_getPoWNonce', difficulty, getNonceHash);
+function getEventList(abi, eventName?: string): Array<any> {
+    const eventList = (isArray(abi) ? abi : [abi]).filter(_a => _a && _a.type === 'event' && (!eventName || _a.name === eventName));
+    if (!eventList.length) {
+        throw new Error(`Can't find abi that type is event${ eventName ? ` and name is ${ eventName }` : '' }`);
     }
+    return eventList;
+}
+
+function decodeVmlogList(eventList: Array<any>, vmlogList: Array<any>): VmLogEvent[] {
+    const list = [];
+    vmlogList.forEach(({ vmlog, accountBlockHash, accountBlockHeight, address, removed }) => {
+        const topics: Hex[] = vmlog && vmlog.topics ? vmlog.topics : [];
+        const jsonInterface = eventList.find(_e => !_e.anonymous && encodeLogSignature(_e) === topics[0])
+            || eventList.find(_e => _e.anonymous);
+        if (!jsonInterface) {
+            return;
+        }
+
+        const data = vmlog.data ? Buffer.from(vmlog.data, 'base64').toString('hex') : '';
+        list.push({
+            event: jsonInterface.name,
+            args: decodeLog(jsonInterface, data, jsonInterface.anonymous ? topics : topics.slice(1)),
+            accountBlockHash,
+            height: accountBlockHeight,
+            address,
+            removed
+        });
+    });
+    return list;
 }
 
 export const ViteAPI = ViteAPIClass;
+export { FallbackProvider, MockLedgerProvider, TokenRegistry, middleware };
 export default ViteAPI;
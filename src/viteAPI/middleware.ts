@@ -0,0 +1,157 @@
+import { isArray } from '~@vite/vitejs-utils';
+
+import { RPCRequest, RPCMiddleware, RPCMethodMetrics } from './type';
+
+export { cache, LRUStore, Default_Cache_Policies } from './cache';
+
+
+// Log a structured record for each request, notification or batch.
+export function logger({ log = console.log }: { log?: Function } = {}): RPCMiddleware {
+    return async (req, next) => {
+        const startTime = Date.now();
+        const record = isArray(req)
+            ? { type: 'batch', methodName: (req as RPCRequest[]).map(_r => _r.methodName), params: (req as RPCRequest[]).map(_r => _r.params) }
+            : { type: (req as RPCRequest).type, methodName: (req as RPCRequest).methodName, params: (req as RPCRequest).params };
+
+        try {
+            const rep = await next(req);
+            log({ ...record, duration: Date.now() - startTime, response: rep });
+            return rep;
+        } catch (error) {
+            log({ ...record, duration: Date.now() - startTime, error });
+            throw error;
+        }
+    };
+}
+
+// Collect latency per method name into `store`. Each request of a batch is counted with the latency of the batch.
+export function metrics(store: { [methodName: string]: RPCMethodMetrics } = {}): RPCMiddleware {
+    const record = (req: RPCRequest | RPCRequest[], duration: number, isError: boolean) => {
+        const reqs: RPCRequest[] = isArray(req) ? req as RPCRequest[] : [req as RPCRequest];
+        reqs.forEach(({ methodName }) => {
+            const item = store[methodName] = store[methodName] || { count: 0, errorCount: 0, totalTime: 0, maxTime: 0 };
+            item.count++;
+            item.errorCount += isError ? 1 : 0;
+            item.totalTime += duration;
+            item.maxTime = Math.max(item.maxTime, duration);
+        });
+    };
+
+    return async (req, next) => {
+        const startTime = Date.now();
+        try {
+            const rep = await next(req);
+            record(req, Date.now() - startTime, false);
+            return rep;
+        } catch (error) {
+            record(req, Date.now() - startTime, true);
+            throw error;
+        }
+    };
+}
+
+// Retry with exponential backoff when timeout or connection error. Only reads of ledger_* and contract_* are retried,
+// errors returned by node are thrown directly.
+export function retry({ retries = 3, delay = 100, maxDelay = 5000, isRetryable = isIdempotentRequest }: {
+    retries?: number; delay?: number; maxDelay?: number; isRetryable?: (req: RPCRequest | RPCRequest[]) => boolean;
+} = {}): RPCMiddleware {
+    return async (req, next) => {
+        if (!isRetryable(req)) {
+            return next(req);
+        }
+
+        for (let i = 0; ; i++) {
+            try {
+                return await next(req);
+            } catch (err) {
+                if (i >= retries || (err && err.error)) {
+                    throw err;
+                }
+                await new Promise(res => setTimeout(res, Math.min(delay * Math.pow(2, i), maxDelay)));
+            }
+        }
+    };
+}
+
+// Rewrite method names, such as deprecated method names. `methodMap` is { [oldMethodName]: newMethodName }, or a function
+// to rewrite a request.
+export function rewrite(methodMap: { [methodName: string]: string } | ((req: RPCRequest) => RPCRequest)): RPCMiddleware {
+    const rewriteRequest = typeof methodMap === 'function'
+        ? methodMap
+        : (req: RPCRequest) => (methodMap[req.methodName] ? { ...req, methodName: methodMap[req.methodName] } : req);
+
+    return (req, next) => {
+        if (isArray(req)) {
+            return next((req as RPCRequest[]).map(_r => rewriteRequest(_r)));
+        }
+        return next(rewriteRequest(req as RPCRequest));
+    };
+}
+
+// Collect requests within `wait` ms into one batch, and split batches larger than `maxSize`.
+// It should be used as the last middleware, so other middlewares still get requests one by one.
+// Requests with a signal or timeout are sent alone, cancelling one of them shouldn't cancel others.
+export function autoBatch({ wait = 0, maxSize = 50 }: { wait?: number; maxSize?: number } = {}): RPCMiddleware {
+    let queue: Array<{ req: RPCRequest; next: Function; res: Function; rej: Function }> = [];
+    let timer = null;
+
+    const flush = () => {
+        timer && clearTimeout(timer);
+        timer = null;
+
+        const items = queue;
+        queue = [];
+        if (!items.length) {
+            return;
+        }
+        if (items.length === 1) {
+            items[0].next(items[0].req).then(items[0].res, items[0].rej);
+            return;
+        }
+
+        // Error of each request is in its response, the whole batch fails only by timeout or connection error.
+        items[0].next(items.map(_i => _i.req)).then(reps => {
+            items.forEach((item, i) => {
+                reps && reps[i] ? item.res(reps[i]) : item.rej(new Error('[Error] No response of the request in batch.'));
+            });
+        }, err => {
+            items.forEach(item => item.rej(err));
+        });
+    };
+
+    return (req, next) => {
+        if (isArray(req)) {
+            const reqs = req as RPCRequest[];
+            if (reqs.length <= maxSize) {
+                return next(reqs);
+            }
+
+            const batchList = [];
+            for (let i = 0; i < reqs.length; i += maxSize) {
+                batchList.push(next(reqs.slice(i, i + maxSize)));
+            }
+            return Promise.all(batchList).then(repsList => [].concat(...repsList));
+        }
+
+        const { type, signal, timeout } = req as RPCRequest;
+        if (type === 'notification' || signal || timeout) {
+            return next(req);
+        }
+
+        return new Promise((res, rej) => {
+            queue.push({ req: req as RPCRequest, next, res, rej });
+            if (queue.length >= maxSize) {
+                flush();
+            } else if (!timer) {
+                timer = setTimeout(flush, wait);
+            }
+        });
+    };
+}
+
+export function isIdempotentRequest(req: RPCRequest | RPCRequest[]): boolean {
+    const reqs: RPCRequest[] = isArray(req) ? req as RPCRequest[] : [req as RPCRequest];
+    return reqs.every(({ type, methodName }) => type !== 'notification'
+        && /^(ledger|contract)_/.test(methodName)
+        && methodName !== 'ledger_sendRawTransaction');
+}
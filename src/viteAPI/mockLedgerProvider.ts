@@ -0,0 +1,405 @@
+const BigNumber = require('bn.js');
+
+import { Vite_TokenId } from '~@vite/vitejs-constant';
+import { checkParams, isValidTokenId, isNonNegativeInteger, blake2bHex } from '~@vite/vitejs-utils';
+import { createAddressByPrivateKey, isValidAddress } from '~@vite/vitejs-wallet/address';
+import { checkAccountBlock, getAccountBlockHash, signAccountBlock, isRequestBlock, isResponseBlock, AccountBlockStatus, Default_Hash } from '~@vite/vitejs-accountblock/utils';
+import { checkPoWNonce, getPoWNonceHash, calcPoWNonce } from '~@vite/vitejs-accountblock/pow';
+
+import { Address, Hex, BigInt, TokenId, BlockType, AccountBlockType, RPCRequest, Methods } from './type';
+
+
+// A simulated ledger in memory for tests. It can be used as a provider of ViteAPI, such as `new ViteAPI(new MockLedgerProvider())`.
+// Contracts are not executed, requests to contracts stay unreceived.
+class MockLedgerProviderClass {
+    readonly type: string
+    readonly connectStatus: boolean
+    readonly mintAddress: Address
+    difficulty: BigInt
+    private mintPrivateKey: Hex
+    private accountBlocks: { [hash: string]: AccountBlockType }
+    private accountChains: { [address: string]: Hex[] }
+    private balances: { [address: string]: { [tokenId: string]: BigInt } }
+    private unreceived: { [address: string]: Hex[] }
+    private unconfirmed: Hex[]
+    private firstSnapshotHeights: { [hash: string]: number }
+    private snapshotHeight: number
+    private autoSnapshot: boolean
+    private subscriptions: { [id: string]: { methodName: string; address?: Address } }
+    private subscriptionId: number
+    private subscribeCallback: Function
+    private requestId: number
+    private methods: { [methodName: string]: (...params: any[]) => any }
+
+    constructor({ difficulty = '', autoSnapshot = true }: {
+        difficulty?: BigInt; autoSnapshot?: boolean;
+    } = {}) {
+        this.type = 'mock';
+        this.connectStatus = true;
+        this.difficulty = difficulty;
+        this.autoSnapshot = autoSnapshot;
+
+        // Tokens are minted by sending from this address, it has unlimited balances.
+        const { address, privateKey } = createAddressByPrivateKey();
+        this.mintAddress = address;
+        this.mintPrivateKey = privateKey;
+
+        this.accountBlocks = {};
+        this.accountChains = {};
+        this.balances = {};
+        this.unreceived = {};
+        this.unconfirmed = [];
+        this.firstSnapshotHeights = {};
+        this.snapshotHeight = 1;
+        this.subscriptions = {};
+        this.subscriptionId = 0;
+        this.subscribeCallback = null;
+        this.requestId = 0;
+
+        this.methods = {
+            ledger_getSnapshotChainHeight: () => `${ this.snapshotHeight }`,
+            ledger_getLatestAccountBlock: (address: Address) => {
+                const chain = this.accountChains[address] || [];
+                return chain.length ? this.getAccountBlock(chain[chain.length - 1]) : null;
+            },
+            ledger_getAccountBlockByHash: (hash: Hex) => this.getAccountBlock(hash),
+            ledger_getAccountBlockByHeight: (address: Address, height: string) => {
+                const chain = this.accountChains[address] || [];
+                return this.getAccountBlock(chain[Number(height) - 1]);
+            },
+            ledger_getAccountBlocksByAddress: (address: Address, pageIndex = 0, pageSize = 50) => {
+                const hashList = (this.accountChains[address] || []).slice().reverse();
+                return getPage(hashList, pageIndex, pageSize).map(hash => this.getAccountBlock(hash));
+            },
+            ledger_getAccountInfoByAddress: (address: Address) => {
+                const balances = this.balances[address] || {};
+                const balanceInfoMap = {};
+                for (const tokenId in balances) {
+                    balanceInfoMap[tokenId] = { tokenInfo: { tokenId }, balance: balances[tokenId] };
+                }
+                return {
+                    address,
+                    blockCount: `${ (this.accountChains[address] || []).length }`,
+                    balanceInfoMap
+                };
+            },
+            ledger_getUnreceivedBlocksByAddress: (address: Address, pageIndex = 0, pageSize = 50) => getPage(this.unreceived[address] || [], pageIndex, pageSize)
+                .map(hash => this.getAccountBlock(hash)),
+            ledger_getUnreceivedBlocksInBatch: (queryList: Array<{ address: Address; pageNumber: number; pageCount: number }> = []) => {
+                const result = {};
+                queryList.forEach(({ address, pageNumber, pageCount }) => {
+                    result[address] = getPage(this.unreceived[address] || [], pageNumber, pageCount).map(hash => this.getAccountBlock(hash));
+                });
+                return result;
+            },
+            ledger_getUnreceivedTransactionSummaryByAddress: (address: Address) => {
+                const hashList = this.unreceived[address] || [];
+                const balanceInfoMap = {};
+                hashList.forEach(hash => {
+                    const { tokenId, amount } = this.accountBlocks[hash];
+                    const info = balanceInfoMap[tokenId] = balanceInfoMap[tokenId] || { tokenInfo: { tokenId }, balance: '0', transactionCount: '0' };
+                    info.balance = new BigNumber(info.balance).add(new BigNumber(amount || '0')).toString();
+                    info.transactionCount = `${ Number(info.transactionCount) + 1 }`;
+                });
+                return {
+                    address,
+                    blockCount: `${ hashList.length }`,
+                    balanceInfoMap
+                };
+            },
+            ledger_getPoWDifficulty: () => {
+                return {
+                    requiredQuota: '21000',
+                    difficulty: this.difficulty,
+                    qc: '0',
+                    isCongestion: false
+                };
+            },
+            util_getPoWNonce: (difficulty: BigInt, dataHash: Hex) => calcPoWNonce({ difficulty, dataHash }),
+            ledger_sendRawTransaction: (accountBlock: AccountBlockType) => {
+                this.addAccountBlock(accountBlock);
+                return null;
+            },
+            subscribe_subscribe: (methodName: string, address?: Address) => {
+                if ([ 'createSnapshotBlockSubscription', 'createAccountBlockSubscription', 'createAccountBlockSubscriptionByAddress', 'createUnreceivedBlockSubscriptionByAddress' ].indexOf(methodName) === -1) {
+                    throw { code: -32000, message: `Subscription ${ methodName } is not supported` };
+                }
+                const id = `0x${ (this.subscriptionId++).toString(16) }`;
+                this.subscriptions[id] = { methodName, address };
+                return id;
+            },
+            subscribe_unsubscribe: (id: string) => {
+                const isExisted = !!this.subscriptions[id];
+                delete this.subscriptions[id];
+                return isExisted;
+            }
+        };
+    }
+
+    // Errors of the node are resolved as a response like HTTP_RPC, Provider throws `error` of it.
+    request(methodName: Methods, params: any[] = []) {
+        const id = ++this.requestId;
+        return this.handle(methodName, params).then(result => {
+            return { jsonrpc: '2.0', id, result };
+        }, error => {
+            return { jsonrpc: '2.0', id, error };
+        });
+    }
+
+    sendNotification(methodName: Methods, params: any[] = []) {
+        return this.handle(methodName, params).then(() => null, () => null);
+    }
+
+    batch(requests: RPCRequest[] = []) {
+        return Promise.all(requests.map(({ type = 'request', methodName, params }) => {
+            if (type === 'notification') {
+                return this.sendNotification(methodName, params);
+            }
+            return this.handle(methodName, params).then(result => {
+                return { result, error: null };
+            }, error => {
+                return { result: null, error };
+            });
+        }));
+    }
+
+    subscribe(callback: Function) {
+        this.subscribeCallback = callback;
+    }
+
+    unsubscribe() {
+        this.subscribeCallback = null;
+        this.subscriptions = {};
+    }
+
+    // Send tokens from mintAddress, the toAddress should receive them.
+    mint(toAddress: Address, amount: BigInt, tokenId: TokenId = Vite_TokenId): AccountBlockType {
+        const err = checkParams({ toAddress, amount, tokenId }, [ 'toAddress', 'amount', 'tokenId' ], [ {
+            name: 'toAddress',
+            func: isValidAddress
+        }, {
+            name: 'amount',
+            func: isNonNegativeInteger
+        }, {
+            name: 'tokenId',
+            func: isValidTokenId
+        } ]);
+        if (err) {
+            throw err;
+        }
+
+        const previousAccountBlock = this.methods.ledger_getLatestAccountBlock(this.mintAddress);
+        const accountBlock: AccountBlockType = {
+            blockType: BlockType.TransferRequest,
+            address: this.mintAddress,
+            toAddress,
+            tokenId,
+            amount,
+            height: previousAccountBlock ? `${ Number(previousAccountBlock.height) + 1 }` : '1',
+            previousHash: previousAccountBlock ? previousAccountBlock.hash : Default_Hash,
+            hash: null,
+            signature: null,
+            publicKey: null
+        };
+        accountBlock.hash = getAccountBlockHash(accountBlock);
+        Object.assign(accountBlock, signAccountBlock(accountBlock, this.mintPrivateKey));
+
+        this.addAccountBlock(accountBlock);
+        return this.getAccountBlock(accountBlock.hash);
+    }
+
+    getBalance(address: Address, tokenId: TokenId = Vite_TokenId): BigInt {
+        return (this.balances[address] || {})[tokenId] || '0';
+    }
+
+    // Confirm all unconfirmed accountBlocks by a new snapshot block.
+    createSnapshotBlock(): number {
+        this.snapshotHeight++;
+        const snapshotHash = getSnapshotHash(this.snapshotHeight);
+        this.unconfirmed.forEach(hash => {
+            this.accountBlocks[hash].firstSnapshotHash = snapshotHash;
+            this.firstSnapshotHeights[hash] = this.snapshotHeight;
+        });
+        this.unconfirmed = [];
+
+        this.emit(({ methodName }) => methodName === 'createSnapshotBlockSubscription'
+            && [{ hash: snapshotHash, height: `${ this.snapshotHeight }`, removed: false }]);
+        return this.snapshotHeight;
+    }
+
+    private async handle(methodName: Methods, params: any[]) {
+        if (!this.methods[methodName]) {
+            throw { code: -32601, message: `The method ${ methodName } does not exist/is not available` };
+        }
+        return this.methods[methodName](...(params || []));
+    }
+
+    private getAccountBlock(hash: Hex): AccountBlockType {
+        const accountBlock = this.accountBlocks[hash];
+        if (!accountBlock) {
+            return null;
+        }
+
+        const confirmations = this.firstSnapshotHeights[hash]
+            ? this.snapshotHeight - this.firstSnapshotHeights[hash] + 1
+            : 0;
+        return { ...accountBlock, confirmations: `${ confirmations }` };
+    }
+
+    private addAccountBlock(block: AccountBlockType) {
+        const accountBlock: AccountBlockType = { ...block, blockType: Number(block.blockType) };
+        const { address, hash, blockType } = accountBlock;
+
+        const err = checkAccountBlock(accountBlock, AccountBlockStatus.Complete);
+        if (err) {
+            throw { code: -32000, message: err.message };
+        }
+        if (this.accountBlocks[hash]) {
+            throw { code: -32000, message: 'The accountBlock already exists' };
+        }
+
+        const previousAccountBlock = this.methods.ledger_getLatestAccountBlock(address);
+        const height = previousAccountBlock ? Number(previousAccountBlock.height) + 1 : 1;
+        const previousHash = previousAccountBlock ? previousAccountBlock.hash : Default_Hash;
+        if (Number(accountBlock.height) !== height || accountBlock.previousHash !== previousHash) {
+            throw { code: -32000, message: `Height or previousHash is wrong, expected height ${ height } and previousHash ${ previousHash }` };
+        }
+
+        if (this.difficulty && !accountBlock.nonce && address !== this.mintAddress) {
+            throw { code: -32000, message: 'Quota is not enough, PoW is required' };
+        }
+        if (accountBlock.nonce && !checkPoWNonce({
+            difficulty: accountBlock.difficulty,
+            nonce: accountBlock.nonce,
+            dataHash: getPoWNonceHash({ address, previousHash })
+        })) {
+            throw { code: -32000, message: 'PoW nonce is wrong' };
+        }
+
+        if (isRequestBlock(blockType)) {
+            this.addRequestBlock(accountBlock);
+        } else if (isResponseBlock(blockType)) {
+            this.addResponseBlock(accountBlock);
+        } else {
+            throw { code: -32000, message: `BlockType ${ blockType } is not supported` };
+        }
+
+        accountBlock.confirmations = '0';
+        accountBlock.firstSnapshotHash = null;
+
+        this.accountBlocks[hash] = accountBlock;
+        this.accountChains[address] = this.accountChains[address] || [];
+        this.accountChains[address].push(hash);
+        this.unconfirmed.push(hash);
+
+        this.emit(({ methodName, address: _address }) => {
+            if (methodName === 'createAccountBlockSubscription' || (methodName === 'createAccountBlockSubscriptionByAddress' && _address === address)) {
+                return [{ hash, height: accountBlock.height, removed: false }];
+            }
+            if (methodName !== 'createUnreceivedBlockSubscriptionByAddress') {
+                return null;
+            }
+            if (isRequestBlock(blockType) && _address === accountBlock.toAddress) {
+                return [{ hash, received: false, removed: false }];
+            }
+            if (!isRequestBlock(blockType) && _address === address) {
+                return [{ hash: accountBlock.sendBlockHash, received: true, removed: false }];
+            }
+            return null;
+        });
+
+        this.autoSnapshot && this.createSnapshotBlock();
+    }
+
+    private addRequestBlock(accountBlock: AccountBlockType) {
+        const { address, toAddress } = accountBlock;
+        accountBlock.tokenId = accountBlock.tokenId || Vite_TokenId;
+        accountBlock.amount = accountBlock.amount || '0';
+        accountBlock.fee = accountBlock.fee || '0';
+        accountBlock.fromAddress = address;
+
+        if (address !== this.mintAddress) {
+            this.subBalances(address, [
+                { tokenId: accountBlock.tokenId, amount: accountBlock.amount },
+                { tokenId: Vite_TokenId, amount: accountBlock.fee }
+            ]);
+        }
+
+        accountBlock.receiveBlockHash = null;
+        accountBlock.receiveBlockHeight = null;
+        this.unreceived[toAddress] = this.unreceived[toAddress] || [];
+        this.unreceived[toAddress].push(accountBlock.hash);
+    }
+
+    private addResponseBlock(accountBlock: AccountBlockType) {
+        const { address, sendBlockHash } = accountBlock;
+        const unreceived = this.unreceived[address] || [];
+        const index = unreceived.indexOf(sendBlockHash);
+        if (index === -1) {
+            throw { code: -32000, message: `SendBlock ${ sendBlockHash } is not unreceived by ${ address }` };
+        }
+
+        const sendBlock = this.accountBlocks[sendBlockHash];
+        accountBlock.fromAddress = sendBlock.address;
+        accountBlock.toAddress = address;
+        accountBlock.tokenId = sendBlock.tokenId;
+        accountBlock.amount = sendBlock.amount;
+
+        unreceived.splice(index, 1);
+        sendBlock.receiveBlockHash = accountBlock.hash;
+        sendBlock.receiveBlockHeight = accountBlock.height;
+        this.addBalance(address, sendBlock.tokenId, sendBlock.amount);
+    }
+
+    private addBalance(address: Address, tokenId: TokenId, amount: BigInt) {
+        this.balances[address] = this.balances[address] || {};
+        this.balances[address][tokenId] = new BigNumber(this.getBalance(address, tokenId)).add(new BigNumber(amount)).toString();
+    }
+
+    // Amounts are summed by tokenId and all checked before any balance is changed, so a rejected block changes nothing.
+    private subBalances(address: Address, amounts: Array<{ tokenId: TokenId; amount: BigInt }>) {
+        const totals: { [tokenId: string]: any } = {};
+        amounts.forEach(({ tokenId, amount }) => {
+            totals[tokenId] = (totals[tokenId] || new BigNumber(0)).add(new BigNumber(amount));
+        });
+
+        for (const tokenId in totals) {
+            if (new BigNumber(this.getBalance(address, tokenId)).lt(totals[tokenId])) {
+                throw { code: -32000, message: `Balance of ${ tokenId } is not enough` };
+            }
+        }
+
+        this.balances[address] = this.balances[address] || {};
+        for (const tokenId in totals) {
+            this.balances[address][tokenId] = new BigNumber(this.getBalance(address, tokenId)).sub(totals[tokenId]).toString();
+        }
+    }
+
+    private emit(getResult: (subscription: { methodName: string; address?: Address }) => any) {
+        const callback = this.subscribeCallback;
+        if (!callback) {
+            return;
+        }
+
+        for (const id in this.subscriptions) {
+            const result = getResult(this.subscriptions[id]);
+            result && Promise.resolve().then(() => callback({
+                jsonrpc: '2.0',
+                method: 'subscribe_subscription',
+                params: { subscription: id, result }
+            }));
+        }
+    }
+}
+
+function getPage(list: Hex[], pageIndex: number, pageSize: number): Hex[] {
+    const start = Number(pageIndex) * Number(pageSize);
+    return list.slice(start, start + Number(pageSize));
+}
+
+function getSnapshotHash(height: number): Hex {
+    return blake2bHex(Buffer.from(`mock snapshot block ${ height }`), null, 32);
+}
+
+export const MockLedgerProvider = MockLedgerProviderClass;
+export default MockLedgerProvider;
@@ -1,9 +1,14 @@
-import { requestTimeout } from '~@vite/vitejs-error';
+import { requestTimeout, requestAborted } from '~@vite/vitejs-error';
+import { checkParams, isArray, abortable } from '~@vite/vitejs-utils';
 
-import { RPCRequest, RPCResponse, Methods } from './type';
+import { RPCRequest, RPCRequestOptions, RPCResponse, RPCMiddleware, Methods, RpcParams, RpcResult, RpcBatchRequest, RpcBatchResponses } from './type';
 import EventEmitter from './eventEmitter';
 
 
+// Max count of accountBlocks in a batch when replaying after reconnecting.
+const Replay_Page_Size = 100;
+
+
 class ProviderClass {
     isConnected: Boolean = false
     private _provider: any
@@ -11,10 +16,12 @@ class ProviderClass {
     private subscriptionId = 0
     private requestList: {[id:number]:()=>void} = {}
     private requestId = 0
+    private middlewares: RPCMiddleware[] = []
 
     constructor(provider: any, onInitCallback: Function) {
         this._provider = provider;
         this.connectedOnce(onInitCallback);
+        this.listenReconnect();
     }
 
     setProvider(provider, onInitCallback, abort) {
@@ -28,6 +35,21 @@ class ProviderClass {
         this._provider = provider;
         this.isConnected = false;
         this.connectedOnce(onInitCallback);
+        this.listenReconnect();
+    }
+
+    // Middlewares are called in order of use, and kept when the provider is changed.
+    use(middleware: RPCMiddleware) {
+        const err = checkParams({ middleware }, ['middleware'], [{
+            name: 'middleware',
+            func: _m => typeof _m === 'function'
+        }]);
+        if (err) {
+            throw err;
+        }
+
+        this.middlewares.push(middleware);
+        return this;
     }
 
     unsubscribe(event:EventEmitter) {
@@ -49,51 +71,55 @@ class ProviderClass {
         this._provider.unsubscribe && this._provider.unsubscribe();
     }
 
-    async request(methods: Methods, ...args: any[]) {
+    async request<M extends Methods>(methods: M, ...args: RpcParams<M>): Promise<RpcResult<M>> {
+        return this.requestWithOptions({}, methods, ...args);
+    }
+
+    // Options are { signal, timeout }. Cancelling rejects with requestAborted or requestTimeout, and removes the pending request.
+    // Options come first, because params of `request` may be plain objects which can't be told from options at the end.
+    async requestWithOptions<M extends Methods>(options: RPCRequestOptions, methods: M, ...args: RpcParams<M>): Promise<RpcResult<M>> {
         if (!this.isConnected) {
-            return this._onReq('request', methods, ...args);
+            return this._onReq('requestWithOptions', [ options, methods, ...args ], options);
         }
 
-        const rep: RPCResponse = await this._provider.request(methods, args);
+        const req = withRequestOptions({ type: 'request', methodName: methods, params: args }, options);
+        const rep: RPCResponse<RpcResult<M>> = await abortable(() => this.send(req), options);
         if (rep.error) {
             throw rep.error;
         }
         return rep.result;
     }
 
-    async sendNotification(methods: Methods, ...args: any[]) {
+    async sendNotification<M extends Methods>(methods: M, ...args: RpcParams<M>) {
         if (!this.isConnected) {
-            return this._onReq('sendNotification', methods, ...args);
+            return this._onReq('sendNotification', [ methods, ...args ]);
         }
 
-        return this._provider.sendNotification(methods, args);
+        return this.send({ type: 'notification', methodName: methods, params: args });
     }
 
-    async batch(reqs: RPCRequest[]) {
+    async batch<R extends RpcBatchRequest[] | [RpcBatchRequest]>(reqs: R, options: RPCRequestOptions = {}): Promise<RpcBatchResponses<R>> {
         if (!this.isConnected) {
-            return this._onReq('batch', reqs);
+            return this._onReq('batch', [ reqs, options ], options);
         }
 
         reqs.forEach(v => {
             v.type = v.type || 'request';
+            withRequestOptions(v, options);
         });
-        const reps: RPCResponse[] = await this._provider.batch(reqs);
+        const reps: RpcBatchResponses<R> = await abortable(() => this.send(reqs), options);
         return reps;
     }
 
     async subscribe(methodName, ...args) {
-        const subMethodName = this._provider.subscribe ? 'subscribe_subscribe' : `subscribe_${ methodName }Filter`;
-        const params = this._provider.subscribe ? [ methodName, ...args ] : args;
+        return this.subscribeWithOptions({}, methodName, ...args);
+    }
 
-        let rep;
-        if (this.isConnected) {
-            rep = await this._provider.request(subMethodName, params);
-            rep = rep.result;
-        } else {
-            rep = await this._onReq('request', subMethodName, ...params);
-        }
+    async subscribeWithOptions(options: RPCRequestOptions, methodName, ...args) {
+        const subMethodName = this._provider.subscribe ? 'subscribe_subscribe' : `subscribe_${ getFilterMethodName(methodName) }`;
+        const params = this._provider.subscribe ? [ methodName, ...args ] : args;
 
-        const subscription = rep;
+        const subscription = await this.requestWithOptions(options, subMethodName, ...params);
 
         if (!Object.keys(this.subscriptionList).length) {
             this.subscriptionList = {};
@@ -102,7 +128,7 @@ class ProviderClass {
             });
         }
 
-        const event = new EventEmitter(subscription, this, !!this._provider.subscribe);
+        const event = new EventEmitter(subscription, this, !!this._provider.subscribe, methodName, args);
         if (!this._provider.subscribe) {
             event.startLoop(jsonEvent => {
                 this.subscribeCallback(jsonEvent);
@@ -112,24 +138,69 @@ class ProviderClass {
         event._id = this.subscriptionId++;
 
         this.subscriptionList[event._id] = event;
+        await this.recordLatestHeight(event);
         return event;
     }
 
 
+    private send(req: RPCRequest | RPCRequest[]): Promise<any> {
+        const dispatch = (index: number, _req: RPCRequest | RPCRequest[]): Promise<any> => {
+            const middleware = this.middlewares[index];
+            if (!middleware) {
+                return this.transport(_req);
+            }
+            return Promise.resolve(middleware(_req, (nextReq = _req) => dispatch(index + 1, nextReq)));
+        };
+        return dispatch(0, req);
+    }
+
+    // Transports get { signal, timeout } to remove the pending request when it's cancelled.
+    private transport(req: RPCRequest | RPCRequest[]): Promise<any> {
+        if (isArray(req)) {
+            const reqs = req as RPCRequest[];
+            const { signal, timeout } = reqs[0] || { signal: undefined, timeout: undefined };
+            const isSameOptions = reqs.every(_r => _r && _r.signal === signal && _r.timeout === timeout);
+            return isSameOptions && (signal || timeout)
+                ? this._provider.batch(reqs, { signal, timeout })
+                : this._provider.batch(reqs);
+        }
+
+        const { type, methodName, params, signal, timeout } = req as RPCRequest;
+        if (type === 'notification') {
+            return this._provider.sendNotification(methodName, params);
+        }
+        return signal || timeout
+            ? this._provider.request(methodName, params, { signal, timeout })
+            : this._provider.request(methodName, params);
+    }
+
     private _offReq(_q) {
         delete this.requestList[_q._id];
     }
 
-    private _onReq(type, methods, ...args) {
+    // Wait until connected. The request is removed from the list when it's done, timeout, or aborted by `signal`.
+    private _onReq(type: string, args: any[], { signal, timeout }: RPCRequestOptions = {}): Promise<any> {
+        if (signal && signal.aborted) {
+            return Promise.reject(requestAborted);
+        }
+
         return new Promise((res, rej) => {
+            const clear = () => {
+                clearTimeout(_timeout);
+                signal && signal.removeEventListener('abort', onAbort);
+                this._offReq(_q);
+            };
+            const onAbort = () => {
+                clear();
+                rej(requestAborted);
+            };
+
             const _q = () => {
-                this[type](methods, ...args).then(data => {
-                    clearTimeout(_timeout);
-                    this._offReq(_q);
+                this[type](...args).then(data => {
+                    clear();
                     res(data);
                 }).catch(err => {
-                    this._offReq(_q);
-                    clearTimeout(_timeout);
+                    clear();
                     rej(err);
                 });
             };
@@ -138,9 +209,10 @@ class ProviderClass {
             this.requestList[_q._id] = _q;
 
             const _timeout = setTimeout(() => {
-                this._offReq(_q);
+                clear();
                 rej(requestTimeout);
-            }, this._provider._timeout || 30000);
+            }, timeout || this._provider._timeout || 30000);
+            signal && signal.addEventListener('abort', onAbort);
         });
     }
 
@@ -171,9 +243,7 @@ class ProviderClass {
     private connectedOnce(cb) {
         const connectedCB = () => {
             this.isConnected = true;
-            this.requestList && Object.values(this.requestList).forEach((_q:()=>void) => {
-                _q && _q();
-            });
+            this.flushRequestList();
             cb && cb(this);
         };
 
@@ -182,11 +252,151 @@ class ProviderClass {
             return;
         }
 
-        this._provider.on && this._provider.on('connect', () => {
+        const onConnect = () => {
             connectedCB();
-            this._provider.remove('connect');
+            this._provider.remove('connect', onConnect);
+        };
+        this._provider.on && onInternal(this._provider, 'connect', onConnect);
+    }
+
+    private flushRequestList() {
+        this.requestList && Object.values(this.requestList).forEach((_q:()=>void) => {
+            _q && _q();
+        });
+    }
+
+    private listenReconnect() {
+        const provider = this._provider;
+        if (!provider.on || provider.type === 'http') {
+            return;
+        }
+
+        onInternal(provider, 'close', () => {
+            if (provider !== this._provider) {
+                return;
+            }
+            this.isConnected = false;
+        });
+
+        onInternal(provider, 'connect', () => {
+            // The first connection is handled by connectedOnce.
+            if (provider !== this._provider || this.isConnected) {
+                return;
+            }
+
+            this.isConnected = true;
+            this.flushRequestList();
+            this.resubscribe();
         });
     }
+
+    private async resubscribe() {
+        const events = Object.values(this.subscriptionList).filter(event => event.isSubscribe);
+
+        for (const event of events) {
+            const previousId = event.id;
+
+            // Replay from the height before resubscribing, the new subscription may emit newer accountBlocks first.
+            const replayFromHeight = event.latestHeight;
+
+            try {
+                const rep: RPCResponse = await this.send({ type: 'request', methodName: 'subscribe_subscribe', params: [ event.methodName, ...event.params ] });
+                if (this.subscriptionList[event._id] !== event) {
+                    continue;
+                }
+
+                event.id = rep.result;
+                event.replayingHeights = {};
+                event.emitResubscribed({ status: 'ok', id: event.id, previousId });
+            } catch (error) {
+                event.emitResubscribed({ status: 'error', previousId, error });
+                continue;
+            }
+
+            try {
+                await this.replayAccountBlocks(event, replayFromHeight);
+            } catch (error) {
+                event.emitResubscribed({ status: 'error', id: event.id, previousId, error });
+            } finally {
+                event.replayingHeights = null;
+            }
+        }
+    }
+
+    // The height of the account when subscribing, accountBlocks after it are replayed if the connection is lost.
+    private async recordLatestHeight(event: EventEmitter) {
+        if (event.methodName !== 'createAccountBlockSubscriptionByAddress' || !event.isSubscribe) {
+            return;
+        }
+
+        try {
+            const latestAccountBlock = await this.request('ledger_getLatestAccountBlock', event.params[0]);
+            const latestHeight = latestAccountBlock ? Number(latestAccountBlock.height) : 0;
+            event.latestHeight = Math.max(event.latestHeight || 0, latestHeight);
+        } catch (err) {
+            // Unknown until the first accountBlock is emitted.
+        }
+    }
+
+    // Emit accountBlocks which were produced while the connection was lost.
+    private async replayAccountBlocks(event: EventEmitter, replayFromHeight: number) {
+        if (event.methodName !== 'createAccountBlockSubscriptionByAddress' || replayFromHeight === null) {
+            return;
+        }
+
+        const address = event.params[0];
+        const latestAccountBlock = await this.request('ledger_getLatestAccountBlock', address);
+        const latestHeight = latestAccountBlock ? Number(latestAccountBlock.height) : 0;
+        if (latestHeight <= replayFromHeight) {
+            return;
+        }
+
+        // Pages are requested one by one, so a long disconnection doesn't make a huge batch.
+        for (let fromHeight = replayFromHeight + 1; fromHeight <= latestHeight; fromHeight += Replay_Page_Size) {
+            const reqs: RPCRequest[] = [];
+            for (let height = fromHeight; height <= Math.min(fromHeight + Replay_Page_Size - 1, latestHeight); height++) {
+                reqs.push({
+                    methodName: 'ledger_getAccountBlockByHeight',
+                    params: [ address, `${ height }` ]
+                });
+            }
+
+            const reps = await this.batch(reqs);
+            const result = [];
+            (reps || []).forEach(rep => {
+                if (!rep || !rep.result) {
+                    return;
+                }
+                result.push({
+                    hash: rep.result.hash,
+                    height: rep.result.height,
+                    removed: false
+                });
+            });
+
+            result.length && event.emit(result);
+        }
+    }
+}
+
+// Only set options which are given, so middlewares see the same request as before.
+function withRequestOptions<T extends RPCRequest | RpcBatchRequest>(req: T, { signal, timeout }: RPCRequestOptions = {}): T {
+    signal && (req.signal = signal);
+    timeout && (req.timeout = timeout);
+    return req;
+}
+
+// Listeners of ViteAPI are kept when users remove theirs by `remove(type)`. Custom providers without `onInternal` only have `on`.
+function onInternal(provider, type: string, cb: Function) {
+    provider.onInternal ? provider.onInternal(type, cb) : provider.on(type, cb);
+}
+
+// createVmlogSubscription ==> createVmlogFilter, createAccountBlockSubscriptionByAddress ==> createAccountBlockFilterByAddress
+function getFilterMethodName(methodName: string): string {
+    if (methodName.indexOf('Subscription') !== -1) {
+        return methodName.replace('Subscription', 'Filter');
+    }
+    return `${ methodName }Filter`;
 }
 
 export const Provider = ProviderClass;
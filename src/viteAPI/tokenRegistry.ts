@@ -0,0 +1,144 @@
+import { Vite_Token_Info, VX_Token_Info } from '~@vite/vitejs-constant';
+import { paramsFormat } from '~@vite/vitejs-error';
+import { checkParams, isValidTokenId, parseUnits, formatUnits } from '~@vite/vitejs-utils';
+
+import { TokenId, BigInt, ProviderType, RoundingMode, TokenUnitInfo } from './type';
+
+
+class TokenRegistryClass {
+    private provider: ProviderType
+    private tokens: { [tokenId: string]: Promise<TokenUnitInfo> }
+    private symbols: { [symbol: string]: TokenId }
+
+    // Tokens can be registered in advance, so their symbols can be used before they are fetched.
+    constructor(provider: ProviderType, { tokens = [ Vite_Token_Info, VX_Token_Info ] }: {
+        tokens?: Array<{ tokenId: TokenId; tokenSymbol: string; decimals: number | string; index?: number | string }>;
+    } = {}) {
+        const err = checkParams({ provider }, ['provider']);
+        if (err) {
+            throw err;
+        }
+
+        this.provider = provider;
+        this.tokens = {};
+        this.symbols = {};
+        tokens.forEach(token => this.register(token));
+    }
+
+    register({ tokenId, tokenSymbol, decimals, index }: {
+        tokenId: TokenId; tokenSymbol: string; decimals: number | string; index?: number | string;
+    }): TokenUnitInfo {
+        const err = checkParams({ tokenId, tokenSymbol, decimals }, [ 'tokenId', 'tokenSymbol', 'decimals' ], [{
+            name: 'tokenId',
+            func: isValidTokenId
+        }]);
+        if (err) {
+            throw err;
+        }
+
+        const info: TokenUnitInfo = { tokenId, tokenSymbol, decimals: Number(decimals) };
+        if (typeof index !== 'undefined' && index !== null) {
+            info.index = Number(index);
+        }
+
+        this.tokens[tokenId] = Promise.resolve(info);
+        this.addSymbol(info);
+        return info;
+    }
+
+    // Token info is fetched once by contract_getTokenInfoById, decimals and symbol of a token never change.
+    getTokenInfo(token: TokenId | string): Promise<TokenUnitInfo> {
+        const tokenId = isValidTokenId(token) ? token : this.symbols[token];
+        if (!tokenId) {
+            return Promise.reject({
+                code: paramsFormat.code,
+                message: `${ paramsFormat.message } Unknown token ${ token }, please register it or use its tokenId.`
+            });
+        }
+
+        if (!this.tokens[tokenId]) {
+            this.tokens[tokenId] = this.provider.request('contract_getTokenInfoById', tokenId).then(result => {
+                if (!result) {
+                    throw {
+                        code: paramsFormat.code,
+                        message: `${ paramsFormat.message } Token ${ tokenId } doesn't exist.`
+                    };
+                }
+
+                const info: TokenUnitInfo = {
+                    tokenId,
+                    tokenSymbol: result.tokenSymbol,
+                    decimals: Number(result.decimals),
+                    index: Number(result.index)
+                };
+                this.addSymbol(info);
+                return info;
+            });
+
+            this.tokens[tokenId].catch(() => {
+                delete this.tokens[tokenId];
+            });
+        }
+        return this.tokens[tokenId];
+    }
+
+    async getDecimals(token: TokenId | string): Promise<number> {
+        const { decimals } = await this.getTokenInfo(token);
+        return decimals;
+    }
+
+    // Amount is such as '10.5 VITE', '10.5 VX-000', '10.5 tti_...', or '10.5' with tokenId. It's an amount to transfer, so it can't be negative.
+    async parseAmount(amount: string, { tokenId, rounding }: {
+        tokenId?: TokenId; rounding?: RoundingMode;
+    } = {}): Promise<{ tokenId: TokenId; amount: BigInt }> {
+        const result = /^\s*(\S+)(?:\s+(\S+))?\s*$/.exec(`${ amount }`);
+        if (!result) {
+            throw {
+                code: paramsFormat.code,
+                message: `${ paramsFormat.message } Illegal amount ${ amount }.`
+            };
+        }
+
+        const [ , value, unit ] = result;
+        if (value[0] === '-') {
+            throw {
+                code: paramsFormat.code,
+                message: `${ paramsFormat.message } Amount ${ amount } is negative.`
+            };
+        }
+
+        const token = unit || tokenId || Vite_Token_Info.tokenId;
+        const info = await this.getTokenInfo(token);
+        if (unit && tokenId && tokenId !== info.tokenId) {
+            throw {
+                code: paramsFormat.code,
+                message: `${ paramsFormat.message } ${ unit } of amount isn't ${ tokenId }.`
+            };
+        }
+
+        return {
+            tokenId: info.tokenId,
+            amount: parseUnits(value, info.decimals, rounding)
+        };
+    }
+
+    async formatAmount(amount: BigInt, tokenId: TokenId, options: {
+        decimalPlaces?: number; rounding?: RoundingMode; thousandsSeparator?: string;
+    } = {}): Promise<string> {
+        const { decimals } = await this.getTokenInfo(tokenId);
+        return formatUnits(amount, decimals, options);
+    }
+
+    private addSymbol({ tokenId, tokenSymbol, index }: TokenUnitInfo) {
+        // Symbols aren't unique, the first token of a symbol (index 0) is also known by the symbol itself.
+        if (typeof index === 'number' && !isNaN(index)) {
+            this.symbols[`${ tokenSymbol }-${ `${ index }`.padStart(3, '0') }`] = tokenId;
+        }
+        if (!index && !this.symbols[tokenSymbol]) {
+            this.symbols[tokenSymbol] = tokenId;
+        }
+    }
+}
+
+export const TokenRegistry = TokenRegistryClass;
+export default TokenRegistry;
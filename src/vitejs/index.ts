@@ -7,7 +7,7 @@ import * as _keystore from '~@vite/vitejs-keystore';
 import * as _utils from '~@vite/vitejs-utils';
 import * as _constant from '~@vite/vitejs-constant';
 import * as _accountBlock from '~@vite/vitejs-accountblock';
-import _viteapi from '~@vite/vitejs-viteapi';
+import _viteapi, { FallbackProvider as _FallbackProvider, MockLedgerProvider as _MockLedgerProvider, TokenRegistry as _TokenRegistry, middleware as _middleware } from '~@vite/vitejs-viteapi';
 import _wallet from '~@vite/vitejs-wallet';
 
 
@@ -25,4 +25,8 @@ export const accountBlock = _accountBlock;
 
 // Add
 export const ViteAPI = _viteapi;
+export const FallbackProvider = _FallbackProvider;
+export const MockLedgerProvider = _MockLedgerProvider;
+export const TokenRegistry = _TokenRegistry;
+export const middleware = _middleware;
 export const wallet = _wallet;
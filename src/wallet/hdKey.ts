@@ -68,6 +68,26 @@ export function getMnemonicsFromEntropy(entropy: Hex, wordlist: Array<string> =
     return bip39.entropyToMnemonic(entropy, wordlist);
 }
 
+// Name of a bip39 wordlist, such as 'english'. It's null for a custom wordlist.
+export function getWordlistLang(wordlist: Array<string> = bip39.wordlists.EN): string {
+    for (const lang in bip39.wordlists) {
+        const _wordlist = bip39.wordlists[lang];
+        if (_wordlist === wordlist || _wordlist.join(' ') === wordlist.join(' ')) {
+            return lang;
+        }
+    }
+    return null;
+}
+
+export function getWordlistByLang(lang: string): Array<string> {
+    for (const _lang in bip39.wordlists) {
+        if (_lang.toLowerCase() === `${ lang }`.toLowerCase()) {
+            return bip39.wordlists[_lang];
+        }
+    }
+    return null;
+}
+
 export function getPath(index: number): string {
     return `${ ROOT_PATH }/${ index }\'`;
 }
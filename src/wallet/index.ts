@@ -1,11 +1,13 @@
 const bip39 = require('bip39');
 
 import { checkParams } from '~@vite/vitejs-utils';
+import { decrypt } from '~@vite/vitejs-keystore';
+import { getSourcePayload } from '~@vite/vitejs-keystore/payload';
 
 import Wallet from './wallet';
 import * as hdKey from './hdKey';
 import * as addressLib from './address';
-import { AddressObj } from './type';
+import { Hex, AddressObj, ScryptOptions } from './type';
 
 
 export default {
@@ -48,6 +50,26 @@ export default {
             throw new Error(err.message);
         }
         return new Wallet(mnemonics, wordlist, passphrase);
+    },
+    // A keystore without payload is taken as the entropy of an english wallet, such as the ones created before, except an old keystore which contains a privateKey.
+    fromKeystore: function (keystore: string, pwd: string, passphrase = '', scryptOptions?: Function | ScryptOptions): Promise<Wallet> {
+        const payload = getSourcePayload(keystore) || { kind: 'entropy', wordlistLang: 'english', derivationRoot: hdKey.ROOT_PATH };
+        if (payload.kind !== 'entropy') {
+            return Promise.reject(new Error(`Keystore contains a ${ payload.kind }, not the entropy of a wallet`));
+        }
+        if (payload.derivationRoot && payload.derivationRoot !== hdKey.ROOT_PATH) {
+            return Promise.reject(new Error(`Don't support derivationRoot ${ payload.derivationRoot }`));
+        }
+
+        const wordlist = hdKey.getWordlistByLang(payload.wordlistLang || 'english');
+        if (!wordlist) {
+            return Promise.reject(new Error(`Don't support wordlist ${ payload.wordlistLang }`));
+        }
+
+        return decrypt(keystore, pwd, scryptOptions).then((entropy: Hex) => {
+            const mnemonics = hdKey.getMnemonicsFromEntropy(entropy, wordlist);
+            return new Wallet(mnemonics, wordlist, passphrase);
+        });
     }
 };
 
@@ -2,10 +2,11 @@ const bip39 = require('bip39');
 const blake = require('blakejs/blake2b');
 
 import { checkParams, isNonNegativeInteger } from '~@vite/vitejs-utils';
+import { encrypt } from '~@vite/vitejs-keystore';
 
 import * as hdKey from './hdKey';
 import * as addressLib from './address';
-import { Hex, Address } from './type';
+import { Hex, Address, ScryptOptions } from './type';
 
 interface AddressObj {
     publicKey: Hex;
@@ -114,6 +115,20 @@ class Wallet {
         }
         return addressList;
     }
+
+    // The entropy is encrypted with its wordlist and rootPath. Passphrase isn't saved, it's needed to restore the wallet.
+    toKeystore(pwd: string, scryptParams?: Object, scryptOptions?: Function | ScryptOptions): Promise<string> {
+        const wordlistLang = hdKey.getWordlistLang(this.wordlist);
+        if (!wordlistLang) {
+            return Promise.reject(new Error('Custom wordlist can\'t be saved in keystore'));
+        }
+
+        return encrypt(this.entropy, pwd, scryptParams, scryptOptions, {
+            kind: 'entropy',
+            wordlistLang,
+            derivationRoot: this.rootPath
+        });
+    }
 }
 
 export default Wallet;
@@ -22,6 +22,12 @@ describe('Constant Test: src/constant', function () {
 
 describe('AccountBlock Test: src/accountBlock', function () {
     require('./packages/accountBlock/utils');
+    require('./packages/accountBlock/pow');
+    require('./packages/accountBlock/accountBlock');
+    require('./packages/accountBlock/accountSequencer');
+    require('./packages/accountBlock/receiverManager');
+    require('./packages/accountBlock/signer');
+    require('./packages/accountBlock/signingServer');
 });
 
 describe('wallet Test: src/wallet', function () {
@@ -11,6 +11,12 @@ describe('Communication Test: src/communication', function () {
 describe('ViteAPI Test: src/viteAPI', function () {
     require('./packages/viteAPI/provider');
     require('./packages/viteAPI/index');
+    require('./packages/viteAPI/contract');
+    require('./packages/viteAPI/fallbackProvider');
+    require('./packages/viteAPI/middleware');
+    require('./packages/viteAPI/cache');
+    require('./packages/viteAPI/mockLedgerProvider');
+    require('./packages/viteAPI/tokenRegistry');
     require('./packages/viteAPI/ws');
 });
 
@@ -982,22 +982,21 @@ describe('encode2decode', function () {
 
         assert.deepEqual(obj, result2);
     });
-    // it('uint32[2][3][4]', function () {
-    //     const obj = [
-    //         // '23',
-    //         [[[ 1, 2 ], [ 3, 4 ], [ 5, 6 ]], [[ 7, 8 ], [ 9, 10 ], [ 11, 12 ]], [[ 13, 14 ], [ 15, 16 ], [ 17, 18 ]], [[ 19, 20 ], [ 21, 22 ], [ 23, 24 ]]]
-    //     ];
-    //     const types = [
-    //         // { name: 'jackpot', type: 'uint256' },
-    //         { name: 'round', type: 'uint32[2][3][4]' }
-    //     ];
+    it('uint32[2][3][4]', function () {
+        const obj = [
+            '23',
+            [[[ 1, 2 ], [ 3, 4 ], [ 5, 6 ]], [[ 7, 8 ], [ 9, 10 ], [ 11, 12 ]], [[ 13, 14 ], [ 15, 16 ], [ 17, 18 ]], [[ 19, 20 ], [ 21, 22 ], [ 23, 24 ]]]
+        ];
+        const types = [
+            { name: 'jackpot', type: 'uint256' },
+            { name: 'round', type: 'uint32[2][3][4]' }
+        ];
 
-    //     const result1 = abi.encodeParameters(types, obj);
-    //     // console.log(result1);
-    //     const result2 = abi.decodeParameters(types, result1);
+        const result1 = abi.encodeParameters(types, obj);
+        const result2 = abi.decodeParameters(types, result1);
 
-    //     assert.deepEqual(obj, result2);
-    // });
+        assert.deepEqual(obj, result2);
+    });
     it('abi encodeParameters address[9] to decodeParameters', function () {
         const obj = [ '500000000000000000',
             [ 'vite_2fe3a97151de7a57b5e8c58a5f32d602efe4dc7277e12c0930',
@@ -1066,6 +1065,144 @@ describe('encode2decode', function () {
     });
 });
 
+describe('nested and dynamic arrays', function () {
+    const words = arr => arr.map(w => w.padStart(64, '0')).join('');
+    const str = s => Buffer.from(s).toString('hex').padEnd(64, '0');
+
+    it('uint256[][] string[] (solidity example)', function () {
+        const result = abi.encodeParameters([ 'uint256[][]', 'string[]' ], [[[ 1, 2 ], [3]], [ 'one', 'two', 'three' ]]);
+        assert.equal(result, words([
+            '40', '140',
+            '2', '40', 'a0', '2', '1', '2', '1', '3',
+            '3', '60', 'a0', 'e0', '3', str('one'), '3', str('two'), '5', str('three')
+        ]));
+        assert.deepEqual(abi.decodeParameters([ 'uint256[][]', 'string[]' ], result), [[[ '1', '2' ], ['3']], [ 'one', 'two', 'three' ]]);
+    });
+    it('uint256 bytes[] bool', function () {
+        const result = abi.encodeParameters([ 'uint256', 'bytes[]', 'bool' ], [ 1, [ '0xdf3234', '0x01' ], true ]);
+        assert.equal(result, words([
+            '1', '60', '1',
+            '2', '40', '80', '3', 'df3234'.padEnd(64, '0'), '1', '01'.padEnd(64, '0')
+        ]));
+        assert.deepEqual(abi.decodeParameters([ 'uint256', 'bytes[]', 'bool' ], result), [ '1', [ 'df3234', '01' ], '1' ]);
+    });
+    it('string[2]', function () {
+        const result = abi.encodeParameter('string[2]', [ 'foo', 'foobar' ]);
+        assert.equal(result, words([ '40', '80', '3', str('foo'), '6', str('foobar') ]));
+        assert.deepEqual(abi.decodeParameter('string[2]', result), [ 'foo', 'foobar' ]);
+    });
+    it('uint8[2][]', function () {
+        const result = abi.encodeParameter('uint8[2][]', [[ 1, 2 ], [ 3, 4 ], [ 5, 6 ]]);
+        assert.equal(result, words([ '3', '1', '2', '3', '4', '5', '6' ]));
+        assert.deepEqual(abi.decodeParameter('uint8[2][]', result), [[ '1', '2' ], [ '3', '4' ], [ '5', '6' ]]);
+    });
+    it('uint8[][2]', function () {
+        const result = abi.encodeParameter('uint8[][2]', [[ 1, 2 ], [3]]);
+        assert.equal(result, words([ '40', 'a0', '2', '1', '2', '1', '3' ]));
+        assert.deepEqual(abi.decodeParameter('uint8[][2]', result), [[ '1', '2' ], ['3']]);
+    });
+
+    const cases = [
+        [ 'uint256[][]', [[ '1', '2' ], [], ['3']]],
+        [ 'uint256[][][]', [[['1'], [ '2', '3' ]], [], [['4']]]],
+        [ 'uint32[2][][2]', [[[ '1', '2' ]], [[ '3', '4' ], [ '5', '6' ]]]],
+        [ 'string[]', [ 'one', '', 'three' ]],
+        [ 'string[][]', [[ 'a', 'b' ], ['c']]],
+        [ 'string[3]', [ 'a', 'bb', 'ccc' ]],
+        [ 'bytes[]', [ 'df3234', '01'.repeat(40) ]],
+        [ 'bytes[][]', [[ '01', '0203' ], ['04']]],
+        [ 'bytes[2]', [ '01', '0203' ]],
+        [ 'bytes[][][]', [[['01'], [ '01', '02' ], ['03']]]],
+        [ 'address[][]', [['vite_010000000000000000000000000000000000000063bef3da00'], []]],
+        [ 'int8[][2]', [[ '-1', '2' ], ['-128']]]
+    ];
+    cases.forEach(([ type, params ]) => {
+        it(`encode2decode ${ type }`, function () {
+            const result = abi.encodeParameter(type, params);
+            assert.deepEqual(abi.decodeParameter(type, result), params);
+
+            const types = [ 'uint8', type, 'string' ];
+            const values = [ '7', params, 'end' ];
+            assert.deepEqual(abi.decodeParameters(types, abi.encodeParameters(types, values)), values);
+        });
+    });
+
+    it('fixed length mismatch', function () {
+        assert.throws(() => abi.encodeParameter('string[2]', ['a']));
+        assert.throws(() => abi.encodeParameter('uint8[2][]', [[ 1, 2 ], [3]]));
+    });
+    it('illegal array length', function () {
+        assert.throws(() => abi.decodeParameter('uint256[]', words(['ffff'])));
+    });
+});
+
+describe('tuple', function () {
+    const words = arr => arr.map(w => w.padStart(64, '0')).join('');
+    const str = s => Buffer.from(s).toString('hex').padEnd(64, '0');
+    const addr = 'vite_010000000000000000000000000000000000000063bef3da00';
+
+    const staticTuple = { name: 'info', type: 'tuple', components: [ { name: 'amount', type: 'uint8' }, { name: 'owner', type: 'address' } ] };
+    const dynamicTuple = { name: 'item', type: 'tuple', components: [ { name: 'id', type: 'uint256' }, { name: 'title', type: 'string' } ] };
+
+    it('encodeFunctionSignature', function () {
+        const jsonInterface = { type: 'function', name: 'set', inputs: [ staticTuple, { ...dynamicTuple, type: 'tuple[]' } ] };
+        assert.equal(abi.encodeFunctionSignature(jsonInterface), abi.encodeFunctionSignature('set((uint8,address),(uint256,string)[])'));
+    });
+    it('static tuple', function () {
+        const result = abi.encodeParameters([ 'uint8', staticTuple ], [ 1, { amount: 2, owner: addr } ]);
+        assert.equal(result, words([ '1', '2', '010000000000000000000000000000000000000000' ]));
+        assert.equal(result, abi.encodeParameters([ 'uint8', staticTuple ], [ 1, [ 2, addr ]]));
+
+        const decoded = abi.decodeParameters([ 'uint8', staticTuple ], result);
+        assert.equal(decoded[0], '1');
+        assert.deepEqual([...decoded[1]], [ '2', addr ]);
+        assert.equal(decoded[1].amount, '2');
+        assert.equal(decoded[1].owner, addr);
+    });
+    it('dynamic tuple', function () {
+        const result = abi.encodeParameter(dynamicTuple, { id: 1, title: 'one' });
+        assert.equal(result, words([ '1', '40', '3', str('one') ]));
+
+        const decoded = abi.decodeParameter(dynamicTuple, result);
+        assert.equal(decoded.id, '1');
+        assert.equal(decoded.title, 'one');
+
+        const params = abi.encodeParameters([ 'uint8', dynamicTuple ], [ 7, { id: 1, title: 'one' } ]);
+        assert.equal(params, words([ '7', '40', '1', '40', '3', str('one') ]));
+        assert.equal(abi.decodeParameters([ 'uint8', dynamicTuple ], params)[1].title, 'one');
+    });
+    it('tuple[] and nested tuple', function () {
+        const type = { type: 'tuple[]', components: [ staticTuple, dynamicTuple, { name: 'tags', type: 'string[]' } ] };
+        const params = [
+            { info: { amount: 1, owner: addr }, item: { id: 2, title: 'two' }, tags: [ 'a', 'b' ] },
+            [[ 3, addr ], [ 4, 'four' ], []]
+        ];
+
+        const decoded = abi.decodeParameters([type], abi.encodeParameters([type], [params]))[0];
+        assert.equal(decoded.length, 2);
+        assert.equal(decoded[0].info.amount, '1');
+        assert.equal(decoded[0].item.title, 'two');
+        assert.deepEqual(decoded[0].tags, [ 'a', 'b' ]);
+        assert.equal(decoded[1][0].owner, addr);
+        assert.equal(decoded[1].item.id, '4');
+        assert.deepEqual(decoded[1].tags, []);
+    });
+    it('decodeLog', function () {
+        const inputs = [ { name: 'from', type: 'address', indexed: true }, dynamicTuple ];
+        const data = abi.encodeParameters([dynamicTuple], [[ 5, 'five' ]]);
+        const result = abi.decodeLog(inputs, data, [abi.encodeParameter('address', addr)]);
+
+        assert.equal(result.from, addr);
+        assert.equal(result.item.id, '5');
+        assert.equal(result[1].title, 'five');
+    });
+    it('catch error', function () {
+        assert.throws(() => abi.encodeParameter('tuple', [1]));
+        assert.throws(() => abi.encodeParameter(staticTuple, [1]));
+        assert.throws(() => abi.encodeParameter({ type: 'uint8', components: [] }, 1));
+    });
+});
+
 describe('getAbiByType', function () {
     it('offchain', function () {
         const type = 'offchain';
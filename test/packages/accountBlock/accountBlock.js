@@ -0,0 +1,194 @@
+const assert = require('assert');
+
+import AccountBlock from '../../../src/accountBlock/accountBlock';
+import { BlockType } from '../../../src/constant';
+import { waitTimeout } from '../../../src/error/index';
+import { signAccountBlock, isValidAccountBlock } from '../../../src/accountBlock/utils';
+import { createAddressByPrivateKey } from '../../../src/wallet/address';
+
+const address = 'vite_69f3bdb5cdcfa145ae6cc42593a89088ff3dac587eb692d689';
+const contractAddress = 'vite_0000000000000000000000000000000000000003f6af7459b9';
+const previousHash = '18095215a419e346dde2f678180382b65146502fb543a7e96c41b141136b47d9';
+const receiveBlockHash = '0000000000000000000000000000000000000000000000000000000000000001';
+
+function getSendBlock(toAddress, provider) {
+    const accountBlock = new AccountBlock({
+        blockType: BlockType.TransferRequest,
+        address,
+        toAddress,
+        amount: '0'
+    }, provider);
+    return accountBlock.setPreviousHash(previousHash).setHeight('2');
+}
+
+// Return blocks in order, one for each polling.
+function getProvider(sendBlockList, receiveBlock = null) {
+    const requestList = [];
+    return {
+        requestList,
+        request: (methodName, hash) => {
+            requestList.push([ methodName, hash ]);
+            if (hash === receiveBlockHash) {
+                return Promise.resolve(receiveBlock);
+            }
+            return Promise.resolve(sendBlockList.length > 1 ? sendBlockList.shift() : sendBlockList[0]);
+        }
+    };
+}
+
+describe('AccountBlock waitForReceive', function () {
+    it('received', async function () {
+        const provider = getProvider([ null, { confirmations: '0' }, { confirmations: '1', receiveBlockHash } ], { blockType: BlockType.Response, hash: receiveBlockHash });
+        const accountBlock = getSendBlock(address, provider);
+
+        const result = await accountBlock.waitForReceive({ interval: 1 });
+        assert.equal(result.status, 'success');
+        assert.equal(result.accountBlock.receiveBlockHash, receiveBlockHash);
+        assert.equal(result.receiveAccountBlock.hash, receiveBlockHash);
+        assert.deepEqual(provider.requestList, [
+            [ 'ledger_getAccountBlockByHash', accountBlock.hash ],
+            [ 'ledger_getAccountBlockByHash', accountBlock.hash ],
+            [ 'ledger_getAccountBlockByHash', accountBlock.hash ],
+            [ 'ledger_getAccountBlockByHash', receiveBlockHash ]
+        ]);
+    });
+
+    it('responseFail', async function () {
+        const provider = getProvider([{ receiveBlockHash }], { blockType: BlockType.ResponseFail, hash: receiveBlockHash });
+        const result = await getSendBlock(contractAddress, provider).waitForReceive({ interval: 1 });
+        assert.equal(result.status, 'responseFail');
+    });
+
+    it('timeout', async function () {
+        const provider = getProvider([{ confirmations: '1' }]);
+        await assert.rejects(getSendBlock(address, provider).waitForReceive({ timeout: 20, interval: 5 }), waitTimeout);
+    });
+
+    it('request error', async function () {
+        const error = { code: -32000, message: 'error' };
+        const accountBlock = getSendBlock(address, { request: () => Promise.reject(error) });
+        await assert.rejects(accountBlock.waitForReceive({ interval: 1 }), error);
+    });
+
+    it('illegal accountBlock', async function () {
+        await assert.rejects(getSendBlock(address).waitForReceive());
+        const accountBlock = new AccountBlock({ blockType: BlockType.Response, address, sendBlockHash: previousHash }, getProvider([]));
+        accountBlock.setPreviousHash(previousHash).setHeight('2');
+        await assert.rejects(accountBlock.waitForReceive());
+    });
+});
+
+describe('AccountBlock waitForConfirmation', function () {
+    it('transfer', async function () {
+        const provider = getProvider([ { confirmations: '1' }, { confirmations: '3' } ]);
+        const result = await getSendBlock(address, provider).waitForConfirmation({ confirmations: 2, interval: 1 });
+        assert.equal(result.status, 'success');
+        assert.equal(result.accountBlock.confirmations, '3');
+        assert.equal(result.receiveAccountBlock, null);
+    });
+
+    it('contract call waits for response', async function () {
+        const provider = getProvider([ { confirmations: '1' }, { confirmations: '2', receiveBlockHash } ], { blockType: BlockType.ResponseFail, hash: receiveBlockHash });
+        const result = await getSendBlock(contractAddress, provider).waitForConfirmation({ interval: 1 });
+        assert.equal(result.status, 'responseFail');
+        assert.equal(result.accountBlock.confirmations, '2');
+        assert.equal(result.receiveAccountBlock.blockType, BlockType.ResponseFail);
+    });
+
+    it('timeout', async function () {
+        const provider = getProvider([{ confirmations: '1' }]);
+        await assert.rejects(getSendBlock(address, provider).waitForConfirmation({ confirmations: 5, timeout: 20, interval: 5 }), waitTimeout);
+    });
+});
+
+describe('AccountBlock autoSendByPoW', function () {
+    it('not sent after aborted', async function () {
+        const account = createAddressByPrivateKey();
+        const controller = new AbortController();
+        const requestList = [];
+        const provider = {
+            request: methodName => {
+                requestList.push(methodName);
+                controller.abort();
+                return Promise.resolve(null);
+            }
+        };
+
+        const accountBlock = new AccountBlock({
+            blockType: BlockType.TransferRequest,
+            address: account.address,
+            toAddress: address,
+            amount: '0'
+        }, provider, account.privateKey);
+
+        await assert.rejects(accountBlock.autoSendByPoW(undefined, { signal: controller.signal }), err => err.code === '300003');
+        await new Promise(res => setTimeout(res));
+        assert.deepEqual(requestList, ['ledger_getLatestAccountBlock']);
+    });
+});
+
+describe('AccountBlock toJSON and fromJSON', function () {
+    const account = createAddressByPrivateKey();
+
+    function getBlock() {
+        const accountBlock = new AccountBlock({
+            blockType: BlockType.TransferRequest,
+            address: account.address,
+            toAddress: address,
+            tokenId: 'tti_5649544520544f4b454e6e40',
+            amount: '100'
+        });
+        accountBlock.setPreviousHash(previousHash).setHeight('2');
+        accountBlock.setDifficulty('67108864').setNonce('AAAAAAAAAAE=');
+        return accountBlock;
+    }
+
+    it('unsigned', function () {
+        const accountBlock = getBlock();
+        const envelope = accountBlock.toJSON();
+        assert.equal(envelope.version, 1);
+        assert.equal(envelope.status, 'Before_Signature');
+        assert.equal(envelope.accountBlock.hash, accountBlock.hash);
+        assert.equal(envelope.accountBlock.fee, undefined);
+        assert.deepEqual(JSON.parse(JSON.stringify(accountBlock)), envelope);
+    });
+
+    it('before hash', function () {
+        const accountBlock = new AccountBlock({ blockType: BlockType.TransferRequest, address, toAddress: address, amount: '0' });
+        accountBlock.setPreviousHash(previousHash).setHeight('2').setDifficulty('67108864');
+        assert.throws(() => accountBlock.toJSON(), { message: /Difficulty and nonce/ });
+        assert.throws(() => new AccountBlock({ blockType: BlockType.TransferRequest, address, toAddress: address }).toJSON());
+    });
+
+    it('sign offline', function () {
+        const unsigned = getBlock().toBase64();
+
+        // Air-gapped machine only has the envelope and signAccountBlock.
+        const envelope = JSON.parse(Buffer.from(unsigned, 'base64').toString());
+        const { signature, publicKey } = signAccountBlock(envelope.accountBlock, account.privateKey);
+        const signed = JSON.stringify({ ...envelope, status: 'Complete', accountBlock: { ...envelope.accountBlock, signature, publicKey }});
+
+        const accountBlock = AccountBlock.fromJSON(signed);
+        assert.equal(accountBlock instanceof AccountBlock, true);
+        assert.equal(accountBlock.hash, envelope.accountBlock.hash);
+        assert.equal(accountBlock.nonce, 'AAAAAAAAAAE=');
+        assert.equal(isValidAccountBlock(accountBlock.accountBlock), true);
+        assert.deepEqual(accountBlock.toJSON().accountBlock, { ...envelope.accountBlock, signature, publicKey });
+    });
+
+    it('fromJSON with provider', function () {
+        const provider = getProvider([]);
+        const accountBlock = AccountBlock.fromJSON(getBlock().toJSON(), provider);
+        assert.equal(accountBlock.hash, getBlock().hash);
+        assert.equal(accountBlock.provider, provider);
+    });
+
+    it('illegal envelope', function () {
+        const envelope = getBlock().toJSON();
+        assert.throws(() => AccountBlock.fromJSON('{'), /Illegal envelope/);
+        assert.throws(() => AccountBlock.fromJSON({ ...envelope, version: 2 }), { message: /envelope version 2/ });
+        assert.throws(() => AccountBlock.fromJSON({ ...envelope, status: 'Signed' }), { message: /Illegal status/ });
+        assert.throws(() => AccountBlock.fromJSON({ ...envelope, accountBlock: { ...envelope.accountBlock, amount: '1' } }), { message: /Hash is wrong/ });
+        assert.throws(() => AccountBlock.fromJSON({ ...envelope, status: 'Complete' }), { message: /PublicKey/ });
+    });
+});
@@ -0,0 +1,111 @@
+const assert = require('assert');
+
+import AccountBlock from '../../../src/accountBlock/accountBlock';
+import { AccountSequencer } from '../../../src/accountBlock/accountSequencer';
+import { BlockType } from '../../../src/constant';
+import { createAddressByPrivateKey } from '../../../src/wallet/address';
+
+const { privateKey, address } = createAddressByPrivateKey();
+const latestBlock = { height: '5', hash: '18095215a419e346dde2f678180382b65146502fb543a7e96c41b141136b47d9' };
+
+function getAccountBlock() {
+    const accountBlock = new AccountBlock({
+        blockType: BlockType.TransferRequest,
+        address,
+        toAddress: address,
+        amount: '0'
+    });
+    return accountBlock.setPrivateKey(privateKey);
+}
+
+function getProvider({ rejectHeight = null } = {}) {
+    const sendList = [];
+    let latestRequestTimes = 0;
+    return {
+        sendList,
+        getLatestRequestTimes: () => latestRequestTimes,
+        request: (methodName, block) => {
+            if (methodName === 'ledger_getLatestAccountBlock') {
+                latestRequestTimes++;
+                return new Promise(res => setTimeout(() => res(latestBlock), 5));
+            }
+            if (methodName === 'ledger_getPoWDifficulty') {
+                return Promise.resolve({ difficulty: '' });
+            }
+            if (methodName === 'ledger_sendRawTransaction') {
+                if (block.height === rejectHeight) {
+                    return Promise.reject(new Error('rejected'));
+                }
+                sendList.push(block);
+                return Promise.resolve(null);
+            }
+            return Promise.reject(new Error(`Unexpected request ${ methodName }`));
+        }
+    };
+}
+
+describe('AccountSequencer', function () {
+    it('without provider', function () {
+        assert.throws(() => new AccountSequencer());
+    });
+
+    it('illegal accountBlock', async function () {
+        await assert.rejects(() => new AccountSequencer(getProvider()).send({ address }));
+    });
+
+    it('concurrent send', async function () {
+        const provider = getProvider();
+        const sequencer = new AccountSequencer(provider);
+
+        const results = await Promise.all([ getAccountBlock(), getAccountBlock(), getAccountBlock() ].map(_a => sequencer.send(_a)));
+        assert.deepEqual(results.map(_r => _r.height), [ '6', '7', '8' ]);
+        assert.equal(results[0].previousHash, latestBlock.hash);
+        assert.equal(results[1].previousHash, results[0].hash);
+        assert.equal(results[2].previousHash, results[1].hash);
+        assert.equal(provider.sendList.length, 3);
+        assert.equal(provider.getLatestRequestTimes(), 1);
+    });
+
+    it('resync after rejection', async function () {
+        const provider = getProvider({ rejectHeight: '7' });
+        const sequencer = new AccountSequencer(provider);
+
+        const results = await Promise.all([ getAccountBlock(), getAccountBlock(), getAccountBlock() ].map(_a => sequencer.send(_a).catch(err => err)));
+        assert.equal(results[0].height, '6');
+        assert.equal(results[1].message, 'rejected');
+        assert.equal(results[2].height, '6');
+        assert.equal(results[2].previousHash, latestBlock.hash);
+        assert.equal(provider.getLatestRequestTimes(), 2);
+    });
+
+    it('sign', async function () {
+        const provider = getProvider();
+        const sequencer = new AccountSequencer(provider);
+        const accountBlock = new AccountBlock({
+            blockType: BlockType.TransferRequest,
+            address,
+            toAddress: address,
+            amount: '0'
+        });
+
+        const result = await sequencer.send(accountBlock, {
+            usePoW: false,
+            sign: async _a => {
+                _a.sign(privateKey);
+            }
+        });
+        assert.equal(result.height, '6');
+        assert.equal(!!result.signature, true);
+    });
+
+    it('reset', async function () {
+        const provider = getProvider();
+        const sequencer = new AccountSequencer(provider);
+
+        await sequencer.send(getAccountBlock());
+        sequencer.reset(address);
+        const result = await sequencer.send(getAccountBlock());
+        assert.equal(result.height, '6');
+        assert.equal(provider.getLatestRequestTimes(), 2);
+    });
+});
@@ -0,0 +1,88 @@
+const assert = require('assert');
+const blake = require('blakejs/blake2b');
+
+import { getPoWNonceHash, getPoWTarget, checkPoWNonce, calcPoWNonce, LocalPoWSolver, RPCPoWSolver } from '../../../src/accountBlock/pow';
+import AccountBlock from '../../../src/accountBlock/accountBlock';
+
+const address = 'vite_69f3bdb5cdcfa145ae6cc42593a89088ff3dac587eb692d689';
+const previousHash = '18095215a419e346dde2f678180382b65146502fb543a7e96c41b141136b47d9';
+const dataHash = getPoWNonceHash({ address, previousHash });
+
+describe('getPoWNonceHash', function () {
+    it('blake2b(originalAddress + previousHash)', function () {
+        const expected = blake.blake2bHex(Buffer.from(`69f3bdb5cdcfa145ae6cc42593a89088ff3dac5800${ previousHash }`, 'hex'), null, 32);
+        assert.equal(dataHash, expected);
+    });
+});
+
+describe('getPoWTarget', function () {
+    it('difficulty 1', function () {
+        assert.equal(getPoWTarget('1'), '0000000000000000');
+    });
+    it('difficulty 2', function () {
+        assert.equal(getPoWTarget('2'), '8000000000000000');
+    });
+    it('difficulty 67108864', function () {
+        assert.equal(getPoWTarget('67108864'), 'ffffffc000000000');
+    });
+    it('difficulty 0', function () {
+        assert.throws(() => getPoWTarget('0'));
+    });
+});
+
+describe('checkPoWNonce', function () {
+    it('difficulty 1, any nonce', function () {
+        assert.equal(checkPoWNonce({ difficulty: '1', nonce: 'AAAAAAAAAAA=', dataHash }), true);
+    });
+    it('illegal nonce length', function () {
+        assert.equal(checkPoWNonce({ difficulty: '1', nonce: 'AAAA', dataHash }), false);
+    });
+    it('same as blake2b', function () {
+        for (let i = 0; i < 20; i++) {
+            const nonce = Buffer.from(blake.blake2b(`${ i }`, null, 8));
+            const out = Buffer.from(blake.blake2b(Buffer.concat([ nonce, Buffer.from(dataHash, 'hex') ]), null, 8));
+            const isHigh = out[7] >= 0x80;
+            assert.equal(checkPoWNonce({ difficulty: '2', nonce: nonce.toString('base64'), dataHash }), isHigh);
+        }
+    });
+});
+
+describe('calcPoWNonce', function () {
+    it('local', async function () {
+        const difficulty = '100000';
+        const nonce = await calcPoWNonce({ difficulty, dataHash, batchSize: 1000 });
+        assert.equal(checkPoWNonce({ difficulty, nonce, dataHash }), true);
+    });
+    it('worker', async function () {
+        const difficulty = '100000';
+        const nonce = await calcPoWNonce({ difficulty, dataHash, useWorker: true });
+        assert.equal(checkPoWNonce({ difficulty, nonce, dataHash }), true);
+    });
+});
+
+describe('PoWSolver', function () {
+    it('LocalPoWSolver', async function () {
+        const difficulty = '100000';
+        const nonce = await new LocalPoWSolver().getNonce({ difficulty, dataHash });
+        assert.equal(checkPoWNonce({ difficulty, nonce, dataHash }), true);
+    });
+    it('RPCPoWSolver', async function () {
+        const provider = { request: (methodName, ...params) => Promise.resolve({ methodName, params }) };
+        const result = await new RPCPoWSolver(provider).getNonce({ difficulty: '100000', dataHash });
+        assert.deepEqual(result, { methodName: 'util_getPoWNonce', params: [ '100000', dataHash ] });
+    });
+    it('AccountBlock.PoW', async function () {
+        const accountBlock = new AccountBlock({
+            blockType: 2,
+            address,
+            toAddress: address,
+            amount: '0'
+        });
+        accountBlock.setPreviousHash(previousHash).setHeight('2');
+        accountBlock.setPoWSolver(new LocalPoWSolver());
+
+        const { difficulty, nonce } = await accountBlock.PoW('100000');
+        assert.equal(difficulty, '100000');
+        assert.equal(checkPoWNonce({ difficulty, nonce, dataHash }), true);
+    });
+});
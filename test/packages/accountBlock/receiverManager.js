@@ -0,0 +1,220 @@
+const assert = require('assert');
+
+import MockLedgerProvider from '../../../src/viteAPI/mockLedgerProvider';
+import ViteAPI from '../../../src/viteAPI/index';
+import ReceiverManager from '../../../src/accountBlock/receiverManager';
+import { Vite_TokenId } from '../../../src/constant';
+import { createAddressByPrivateKey } from '../../../src/wallet/address';
+
+const tokenId = 'tti_251a3e67a41b5ea2373936c8';
+
+function createLedger() {
+    const ledger = new MockLedgerProvider();
+    const api = new ViteAPI(ledger, () => {});
+    return { ledger, api };
+}
+
+async function waitFor(condition, timeout = 2000) {
+    const startTime = Date.now();
+    while (!condition()) {
+        if (Date.now() - startTime > timeout) {
+            throw new Error('waitFor timeout');
+        }
+        await new Promise(res => setTimeout(res, 5));
+    }
+}
+
+describe('ReceiverManager', function () {
+    it('illegal params', function () {
+        const { api } = createLedger();
+        assert.throws(() => new ReceiverManager({}));
+        assert.throws(() => new ReceiverManager({ provider: api, concurrency: 0 }));
+        assert.throws(() => new ReceiverManager({ provider: api }).addAccount({ address: createAddressByPrivateKey().address }));
+    });
+
+    it('poll in batches and receive for many addresses', async function () {
+        const { ledger, api } = createLedger();
+        const accounts = [ 0, 1, 2, 3, 4 ].map(() => createAddressByPrivateKey());
+
+        const batchSizes = [];
+        api.use((req, next) => {
+            req.methodName === 'ledger_getUnreceivedBlocksInBatch' && batchSizes.push(req.params[0].length);
+            return next(req);
+        });
+
+        const manager = new ReceiverManager({ provider: api, batchSize: 2, interval: 10 });
+        accounts.forEach(({ address, privateKey }) => manager.addAccount({ address, privateKey }));
+        accounts.forEach(({ address }) => {
+            ledger.mint(address, '10');
+            ledger.mint(address, '20');
+        });
+
+        const results = [];
+        manager.onSuccess(result => results.push(result));
+        await manager.start();
+
+        await waitFor(() => accounts.every(({ address }) => ledger.getBalance(address) === '30'));
+        manager.stop();
+
+        assert.deepEqual(batchSizes.slice(0, 3), [ 2, 2, 1 ]);
+        assert.equal(results.every(({ status, accountBlockList }) => status === 'ok' && accountBlockList.length === 2), true);
+    });
+
+    it('bounded concurrency', async function () {
+        const { ledger, api } = createLedger();
+        const accounts = [ 0, 1, 2, 3, 4 ].map(() => createAddressByPrivateKey());
+
+        let runningCount = 0;
+        let maxRunningCount = 0;
+        api.use(async (req, next) => {
+            if (req.methodName !== 'ledger_sendRawTransaction') {
+                return next(req);
+            }
+            runningCount++;
+            maxRunningCount = Math.max(maxRunningCount, runningCount);
+            await new Promise(res => setTimeout(res, 5));
+            try {
+                return await next(req);
+            } finally {
+                runningCount--;
+            }
+        });
+
+        const manager = new ReceiverManager({ provider: api, concurrency: 2, interval: 10 });
+        accounts.forEach(({ address, privateKey }) => {
+            manager.addAccount({ address, privateKey });
+            ledger.mint(address, '10');
+        });
+        await manager.start();
+
+        await waitFor(() => accounts.every(({ address }) => ledger.getBalance(address) === '10'));
+        manager.stop();
+        assert.equal(maxRunningCount, 2);
+    });
+
+    it('filter tokenIds and amount', async function () {
+        const { ledger, api } = createLedger();
+        const account = createAddressByPrivateKey();
+
+        const manager = new ReceiverManager({
+            provider: api,
+            pageSize: 2,
+            interval: 10,
+            filter: { tokenIds: [Vite_TokenId], minAmount: { [Vite_TokenId]: '10' } }
+        });
+        manager.addAccount(account);
+
+        // A full page of filtered blocks doesn't block others.
+        ledger.mint(account.address, '1');
+        ledger.mint(account.address, '100', tokenId);
+        ledger.mint(account.address, '100');
+
+        await manager.start();
+        await waitFor(() => ledger.getBalance(account.address) === '100');
+
+        const { unreceived } = await api.getBalanceInfo(account.address);
+        manager.stop();
+
+        assert.equal(unreceived.blockCount, '2');
+        assert.equal(ledger.getBalance(account.address, tokenId), '0');
+    });
+
+    it('filter senders', async function () {
+        const { ledger, api } = createLedger();
+        const account = createAddressByPrivateKey();
+
+        const manager = new ReceiverManager({ provider: api, filter: { blacklist: [ledger.mintAddress] } });
+        manager.addAccount(account);
+        ledger.mint(account.address, '100');
+
+        await manager.start();
+        await new Promise(res => setTimeout(res, 20));
+        manager.stop();
+
+        assert.equal(ledger.getBalance(account.address), '0');
+    });
+
+    it('back off after errors', async function () {
+        const { ledger, api } = createLedger();
+        const account = createAddressByPrivateKey();
+
+        const sendTimes = [];
+        api.use((req, next) => {
+            if (req.methodName === 'ledger_sendRawTransaction') {
+                sendTimes.push(Date.now());
+                if (sendTimes.length <= 2) {
+                    return Promise.reject({ jsonrpc: '2.0', id: 1, error: { code: -32000, message: 'send failed' } });
+                }
+            }
+            return next(req);
+        });
+
+        const manager = new ReceiverManager({ provider: api, interval: 1000, backoff: { delay: 20 } });
+        const errors = [];
+        manager.onError(error => errors.push(error));
+        manager.addAccount(account);
+        ledger.mint(account.address, '10');
+        await manager.start();
+
+        await waitFor(() => ledger.getBalance(account.address) === '10');
+        manager.stop();
+
+        assert.equal(errors.length, 2);
+        assert.equal(errors[0].address, account.address);
+        assert.equal(errors[0].unreceivedHash !== undefined, true);
+        assert.equal(sendTimes[1] - sendTimes[0] >= 15, true);
+        assert.equal(sendTimes[2] - sendTimes[1] >= 35, true);
+    });
+
+    it('restart while the first poll is pending', async function () {
+        const { api } = createLedger();
+        const account = createAddressByPrivateKey();
+
+        let release = null;
+        const gate = new Promise(res => {
+            release = res;
+        });
+        let pollCount = 0;
+        api.use(async (req, next) => {
+            if (req.methodName !== 'ledger_getUnreceivedBlocksInBatch') {
+                return next(req);
+            }
+            pollCount++ === 0 && await gate;
+            return next(req);
+        });
+
+        const manager = new ReceiverManager({ provider: api, interval: 20 });
+        manager.addAccount(account);
+        const firstStart = manager.start();
+        manager.stop();
+        await manager.start();
+        release();
+        await firstStart;
+
+        // Only one polling loop, about 10 polls in 200ms. Two loops poll about 20 times.
+        pollCount = 0;
+        await new Promise(res => setTimeout(res, 200));
+        manager.stop();
+        assert.ok(pollCount > 0 && pollCount <= 12, `${ pollCount } polls`);
+    });
+
+    it('driven by subscription', async function () {
+        const { ledger, api } = createLedger();
+        const account = createAddressByPrivateKey();
+
+        const manager = new ReceiverManager({ provider: api, useSubscription: true });
+        manager.addAccount(account);
+        ledger.mint(account.address, '10');
+        await manager.start();
+        await waitFor(() => ledger.getBalance(account.address) === '10');
+
+        ledger.mint(account.address, '20');
+        await waitFor(() => ledger.getBalance(account.address) === '30');
+
+        manager.removeAccount(account.address);
+        ledger.mint(account.address, '30');
+        await new Promise(res => setTimeout(res, 20));
+        manager.stop();
+        assert.equal(ledger.getBalance(account.address), '30');
+    });
+});
@@ -0,0 +1,128 @@
+const assert = require('assert');
+const bip39 = require('bip39');
+
+import { PrivateKeySigner, WalletSigner, KeystoreSigner } from '../../../src/accountBlock/signer';
+import AccountBlock from '../../../src/accountBlock/accountBlock';
+import Transaction from '../../../src/accountBlock/transaction';
+import { isValidAccountBlock } from '../../../src/accountBlock/utils';
+import { BlockType } from '../../../src/constant';
+import { encrypt } from '../../../src/keystore/index';
+import { createAddressByPrivateKey } from '../../../src/wallet/address';
+import { getEntropyFromMnemonics } from '../../../src/wallet/hdKey';
+import walletLib from '../../../src/wallet/index';
+import { ed25519 } from '../../../src/utils/index';
+
+const account = createAddressByPrivateKey();
+const wallet = walletLib.createWallet();
+const previousHash = '18095215a419e346dde2f678180382b65146502fb543a7e96c41b141136b47d9';
+const hash = 'a'.repeat(64);
+
+function getAccountBlock(address) {
+    const accountBlock = new AccountBlock({
+        blockType: BlockType.TransferRequest,
+        address,
+        toAddress: address,
+        amount: '0'
+    });
+    return accountBlock.setPreviousHash(previousHash).setHeight('2');
+}
+
+describe('PrivateKeySigner', function () {
+    const signer = new PrivateKeySigner(account.privateKey);
+
+    it('getAddress and getPublicKey', async function () {
+        assert.equal(await signer.getAddress(), account.address);
+        assert.equal(await signer.getPublicKey(), account.publicKey);
+    });
+
+    it('signHash', async function () {
+        const signature = await signer.signHash(hash);
+        assert.equal(ed25519.verify(hash, signature, account.publicKey), true);
+    });
+
+    it('illegal privateKey', function () {
+        assert.throws(() => new PrivateKeySigner('xyz'));
+    });
+});
+
+describe('WalletSigner', function () {
+    it('deriveAddress', async function () {
+        const signer = new WalletSigner(wallet, 2);
+        assert.equal(await signer.getAddress(), wallet.deriveAddress(2).address);
+        assert.equal(await signer.getPublicKey(), wallet.deriveAddress(2).publicKey);
+    });
+
+    it('illegal params', function () {
+        assert.throws(() => new WalletSigner({}));
+        assert.throws(() => new WalletSigner(wallet, -1));
+    });
+});
+
+describe('KeystoreSigner', function () {
+    it('privateKey', async function () {
+        const keystore = await encrypt(account.privateKey, '123456');
+        const signer = new KeystoreSigner({ keystore, password: '123456' });
+        assert.equal(await signer.getAddress(), account.address);
+        const signature = await signer.signHash(hash);
+        assert.equal(ed25519.verify(hash, signature, account.publicKey), true);
+    });
+
+    it('entropy', async function () {
+        const keystore = await encrypt(getEntropyFromMnemonics(wallet.mnemonics), '123456');
+        const signer = new KeystoreSigner({ keystore, password: '123456', index: 1 });
+        assert.equal(await signer.getAddress(), wallet.deriveAddress(1).address);
+    });
+
+    it('wallet keystore with wordlist', async function () {
+        const _wallet = walletLib.createWallet(128, bip39.wordlists.japanese);
+        const keystore = await _wallet.toKeystore('123456', { n: 1024 });
+        const signer = new KeystoreSigner({ keystore, password: '123456' });
+        assert.equal(await signer.getAddress(), _wallet.deriveAddress(0).address);
+    });
+
+    it('wrong password', async function () {
+        const keystore = await encrypt(account.privateKey, '123456');
+        const signer = new KeystoreSigner({ keystore, password: '654321' });
+        await assert.rejects(signer.getAddress());
+
+        const _signer = new KeystoreSigner({ keystore, password: '123456' });
+        assert.equal(await _signer.getAddress(), account.address);
+    });
+});
+
+describe('Sign by Signer', function () {
+    it('accountBlock.signBySigner', async function () {
+        const accountBlock = getAccountBlock(account.address);
+        await accountBlock.signBySigner(new PrivateKeySigner(account.privateKey));
+        assert.equal(isValidAccountBlock(accountBlock.accountBlock), true);
+
+        const _accountBlock = getAccountBlock(account.address).sign(account.privateKey);
+        assert.equal(accountBlock.signature, _accountBlock.signature);
+        assert.equal(accountBlock.publicKey, _accountBlock.publicKey);
+    });
+
+    it('wrong signer', async function () {
+        const accountBlock = getAccountBlock(account.address);
+        await assert.rejects(accountBlock.signBySigner(new WalletSigner(wallet)), /Signer is wrong/);
+        assert.throws(() => accountBlock.setSigner({}));
+    });
+
+    it('transaction.setSigner and autoSend', async function () {
+        let sendBlock = null;
+        const provider = {
+            request: (methodName, block) => {
+                if (methodName === 'ledger_getLatestAccountBlock') {
+                    return Promise.resolve({ height: '1', hash: previousHash });
+                }
+                sendBlock = block;
+                return Promise.resolve(null);
+            }
+        };
+
+        const signer = new WalletSigner(wallet);
+        const transaction = new Transaction(wallet.deriveAddress(0).address).setProvider(provider).setSigner(signer);
+        await transaction.send({ toAddress: account.address, amount: '1' }).autoSend();
+        assert.equal(sendBlock.height, '2');
+        assert.equal(isValidAccountBlock(sendBlock), true);
+    });
+});
@@ -0,0 +1,137 @@
+const assert = require('assert');
+
+import { createSigningServer, checkSigningPolicy } from '../../../src/accountBlock/signingServer';
+import { RemoteSigner } from '../../../src/accountBlock/signer';
+import AccountBlock from '../../../src/accountBlock/accountBlock';
+import Transaction from '../../../src/accountBlock/transaction';
+import { isValidAccountBlock } from '../../../src/accountBlock/utils';
+import { Vite_TokenId, Contracts } from '../../../src/constant';
+import { signingRefused } from '../../../src/error/index';
+import { encrypt } from '../../../src/keystore/index';
+import { createAddressByPrivateKey } from '../../../src/wallet/address';
+import ViteAPI from '../../../src/viteAPI/index';
+import HTTP_RPC from '../../../src/HTTP';
+
+const account = createAddressByPrivateKey();
+const toAddress = createAddressByPrivateKey().address;
+const previousHash = '18095215a419e346dde2f678180382b65146502fb543a7e96c41b141136b47d9';
+const policy = {
+    maxAmount: { [Vite_TokenId]: '100' },
+    toAddressList: [ toAddress, Contracts.StakeForQuota.contractAddress ],
+    transactionTypeList: [ 'TransferRequest', 'StakeForQuota' ]
+};
+
+function getAccountBlock(method, params) {
+    const accountBlock = new Transaction(account.address)[method](params);
+    return accountBlock.setPreviousHash(previousHash).setHeight('2');
+}
+
+describe('checkSigningPolicy', function () {
+    it('pass', function () {
+        assert.equal(checkSigningPolicy(getAccountBlock('send', { toAddress, amount: '100' }), policy), null);
+        assert.equal(checkSigningPolicy(getAccountBlock('stakeForQuota', { beneficiaryAddress: toAddress, amount: '0' }), policy), null);
+    });
+
+    it('refuse all without rules', function () {
+        const accountBlock = getAccountBlock('send', { toAddress: account.address, amount: '1000' });
+        assert.equal(checkSigningPolicy(accountBlock).code, signingRefused.code);
+        assert.equal(checkSigningPolicy(accountBlock, {}).code, signingRefused.code);
+        assert.throws(() => createSigningServer({ keystore: '{}', password: '123456' }));
+    });
+
+    it('maxFee', function () {
+        const accountBlock = getAccountBlock('send', { toAddress, amount: '1' });
+        accountBlock.fee = '11';
+        assert.equal(checkSigningPolicy(accountBlock, { ...policy, maxFee: '10' }).code, signingRefused.code);
+        accountBlock.fee = '10';
+        assert.equal(checkSigningPolicy(accountBlock, { ...policy, maxFee: '10' }), null);
+    });
+
+    it('maxAmount', function () {
+        const err = checkSigningPolicy(getAccountBlock('send', { toAddress, amount: '101' }), policy);
+        assert.equal(err.code, signingRefused.code);
+        assert.equal(checkSigningPolicy(getAccountBlock('send', { toAddress, tokenId: 'tti_251a3e67a41b5ea2373936c8', amount: '1' }), policy).code, signingRefused.code);
+    });
+
+    it('toAddressList', function () {
+        const err = checkSigningPolicy(getAccountBlock('send', { toAddress: account.address, amount: '1' }), policy);
+        assert.equal(err.code, signingRefused.code);
+    });
+
+    it('transactionTypeList', function () {
+        const accountBlock = getAccountBlock('cancelQuotaStake', { id: previousHash });
+        const err = checkSigningPolicy(accountBlock, { transactionTypeList: policy.transactionTypeList });
+        assert.equal(err.code, signingRefused.code);
+        assert.equal(/CancelQuotaStake/.test(err.message), true);
+    });
+
+    it('TransferRequest with data or to a contract', function () {
+        const withData = getAccountBlock('send', { toAddress, amount: '1', data: 'MTIzYWJjZA==' });
+        assert.equal(checkSigningPolicy(withData, policy).code, signingRefused.code);
+
+        // An unknown method of a contract is decoded as TransferRequest.
+        const contractCall = getAccountBlock('callContract', {
+            toAddress: Contracts.StakeForQuota.contractAddress,
+            abi: { type: 'function', name: 'unknown', inputs: [] },
+            methodName: 'unknown'
+        });
+        assert.equal(checkSigningPolicy(contractCall, policy).code, signingRefused.code);
+
+        const toContract = getAccountBlock('send', { toAddress: Contracts.StakeForQuota.contractAddress, amount: '1' });
+        assert.equal(checkSigningPolicy(toContract, policy).code, signingRefused.code);
+    });
+});
+
+// Start a signing server for each test, and close it after testing.
+async function withSigner(test) {
+    const keystore = await encrypt(account.privateKey, '123456');
+    const server = createSigningServer({ keystore, password: '123456', policy });
+    await new Promise(res => server.listen(0, '127.0.0.1', res));
+
+    try {
+        await test(new RemoteSigner(new ViteAPI(new HTTP_RPC(`http://127.0.0.1:${ server.address().port }`), () => {})));
+    } finally {
+        server.close();
+    }
+}
+
+describe('RemoteSigner with signing server', function () {
+    it('getAddress and getPublicKey', function () {
+        return withSigner(async signer => {
+            assert.equal(await signer.getAddress(), account.address);
+            assert.equal(await signer.getPublicKey(), account.publicKey);
+        });
+    });
+
+    it('signHash', function () {
+        return withSigner(async signer => {
+            await assert.rejects(signer.signHash(previousHash));
+        });
+    });
+
+    it('sign accountBlock', function () {
+        return withSigner(async signer => {
+            const accountBlock = getAccountBlock('send', { toAddress, amount: '10' });
+            await accountBlock.signBySigner(signer);
+            assert.equal(isValidAccountBlock(accountBlock.accountBlock), true);
+
+            const _accountBlock = getAccountBlock('send', { toAddress, amount: '10' }).sign(account.privateKey);
+            assert.equal(accountBlock.signature, _accountBlock.signature);
+        });
+    });
+
+    it('refused by policy', function () {
+        return withSigner(async signer => {
+            const accountBlock = getAccountBlock('send', { toAddress, amount: '1000' });
+            await assert.rejects(accountBlock.signBySigner(signer), err => err.error.code === signingRefused.code && /Amount/.test(err.error.message));
+            assert.equal(accountBlock.signature, undefined);
+        });
+    });
+
+    it('illegal envelope', function () {
+        return withSigner(async signer => {
+            const accountBlock = new AccountBlock({ blockType: 2, address: account.address, toAddress, amount: '0' });
+            await assert.rejects(signer.signAccountBlock({ version: 1, status: 'Before_Signature', accountBlock: accountBlock.accountBlock }));
+        });
+    });
+});
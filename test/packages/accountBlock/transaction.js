@@ -3,7 +3,7 @@ const assert = require('assert');
 import { BlockType, Vite_TokenId, Contracts } from '../../../src/constant';
 import Transaction from '../../../src/accountBlock/transaction';
 import { getCreateContractData, getCallContractData, messageToData } from '../../../src/accountBlock/utils';
-import { paramsConflict } from '../../../src/error/index';
+import { paramsConflict, paramsMissing, addressIllegal } from '../../../src/error/index';
 
 const address = 'vite_69f3bdb5cdcfa145ae6cc42593a89088ff3dac587eb692d689';
 const myTransaction = new Transaction(address);
@@ -109,3 +109,55 @@ it('callContract', function () {
     assert.equal(accountBlock.data, data);
     assert.equal(accountBlock.amount, amount);
 });
+
+describe('fromURI', function () {
+    it('send with decimal amount', function () {
+        const accountBlock = myTransaction.fromURI({ uri: `vite:${ address }?amount=1.5&fee=0&data=MTIzYWJjZA` });
+
+        assert.equal(accountBlock.blockType, BlockType.TransferRequest);
+        assert.equal(accountBlock.toAddress, address);
+        assert.equal(accountBlock.tokenId, Vite_TokenId);
+        assert.equal(accountBlock.amount, '1500000000000000000');
+        assert.equal(accountBlock.data, 'MTIzYWJjZA==');
+        assert.equal(accountBlock.fee, undefined);
+    });
+
+    it('callContract with abi', function () {
+        const toAddress = Contracts.StakeForQuota.contractAddress;
+        const accountBlock = myTransaction.fromURI({
+            uri: `vite:${ toAddress }/StakeForQuota?amount=134&beneficiary=${ address }`,
+            abi: Contracts.StakeForQuota.abi
+        });
+
+        assert.equal(accountBlock.toAddress, toAddress);
+        assert.equal(accountBlock.amount, '134000000000000000000');
+        assert.equal(accountBlock.data, getCallContractData({ abi: Contracts.StakeForQuota.abi, params: [address] }));
+    });
+
+    it('decimals of other tokens', function () {
+        const uri = `vite:${ address }?tti=tti_5649544520544f4b454e6e40&amount=0.25`;
+        assert.equal(myTransaction.fromURI({ uri, decimals: 2 }).amount, '25');
+        assert.throws(() => myTransaction.fromURI({ uri: `vite:${ address }?tti=tti_251a3e67a41b5ea2373936c8&amount=1` }), { code: paramsMissing.code });
+        assert.throws(() => myTransaction.fromURI({ uri, decimals: 1 }), { code: paramsConflict.code });
+    });
+
+    it('fee is in VITE', function () {
+        const uri = `vite:${ address }?tti=tti_5649544520544f4b454e6e40&amount=2&fee=1`;
+        const accountBlock = myTransaction.fromURI({ uri, decimals: 6 });
+        assert.equal(accountBlock.tokenId, 'tti_5649544520544f4b454e6e40');
+        assert.equal(accountBlock.amount, '2000000');
+        assert.equal(accountBlock.fee, '1000000000000000000');
+
+        const feeOnly = myTransaction.fromURI({ uri: `vite:${ address }?tti=tti_251a3e67a41b5ea2373936c8&fee=1` });
+        assert.equal(feeOnly.amount, '0');
+        assert.equal(feeOnly.fee, '1000000000000000000');
+    });
+
+    it('illegal address checksum', function () {
+        assert.throws(() => myTransaction.fromURI({ uri: 'vite:vite_69f3bdb5cdcfa145ae6cc42593a89088ff3dac587eb692d688' }), addressIllegal);
+    });
+
+    it('function_name without abi or data', function () {
+        assert.throws(() => myTransaction.fromURI({ uri: `vite:${ address }/echo?amount=1` }), { code: paramsMissing.code });
+    });
+});
@@ -103,4 +103,40 @@ describe('IPC_WS', function () {
             assert.equal(typeof I[key], 'function');
         });
     });
+
+    it('on multiple listeners and remove', function () {
+        const I = new IPC_WS({ onEventTypes: ['connect'] });
+        const called = [];
+        const first = () => called.push('first');
+        const second = () => called.push('second');
+
+        I.on('connect', first);
+        I.on('connect', second);
+        I._connected();
+        assert.deepEqual(called, [ 'first', 'second' ]);
+
+        I.remove('connect', first);
+        I._connected();
+        assert.deepEqual(called, [ 'first', 'second', 'second' ]);
+
+        I.remove('connect');
+        I._connected();
+        assert.deepEqual(called, [ 'first', 'second', 'second' ]);
+    });
+
+    it('remove without cb keeps internal listeners', function () {
+        const I = new IPC_WS({ onEventTypes: ['connect'] });
+        const called = [];
+        const internal = () => called.push('internal');
+
+        I.onInternal('connect', internal);
+        I.on('connect', () => called.push('user'));
+        I.remove('connect');
+        I._connected();
+        assert.deepEqual(called, ['internal']);
+
+        I.remove('connect', internal);
+        I._connected();
+        assert.deepEqual(called, ['internal']);
+    });
 });
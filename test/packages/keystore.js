@@ -1,7 +1,13 @@
 const assert = require('assert');
 
-import { isValid, decrypt, encrypt, encryptV1ToV3, encryptOldKeystore } from '../../src/keystore/index';
+import { isValid, decrypt, encrypt, encryptV1ToV3, encryptOldKeystore, changePassword, upgrade, getPayload } from '../../src/keystore/index';
+import { encryptPwd } from '../../src/keystore/tools';
 import { createAddressByPrivateKey } from '../../src/wallet/address';
+import walletUtils from '../../src/wallet/index';
+import { requestAborted } from '../../src/error/index';
+
+const crypto = require('crypto');
+const scryptsy = require('scryptsy');
 
 const OLD_PWD = '1';
 const oldKeyJSON = {
@@ -188,4 +194,159 @@ if (process.env.NODE_ENV !== 'testWatch') {
             });
         });
     });
+
+    describe('changePassword and upgrade', function () {
+        const NEW_PWD = 'y';
+        const lightScryptParams = { n: 1024, r: 8, p: 1 };
+
+        it('changePassword of V3 keeps uuid', async function () {
+            const k = await changePassword(ksV1toV3, PWD, NEW_PWD, lightScryptParams);
+            const keyJson = JSON.parse(k);
+
+            assert.equal(keyJson.uuid, keyJSONV1toV3.uuid);
+            assert.equal(keyJson.version, 3);
+            assert.equal(keyJson.crypto.scryptparams.n, 1024);
+            assert.equal(keyJson.crypto.scryptparams.p, 1);
+            assert.notEqual(keyJson.crypto.scryptparams.salt, keyJSONV1toV3.crypto.scryptparams.salt);
+            assert.equal(await decrypt(k, NEW_PWD), entropyV1);
+            await assert.rejects(decrypt(k, PWD));
+        });
+
+        it('changePassword of V2', async function () {
+            const k = await changePassword(ksV1toV2, PWD, NEW_PWD, lightScryptParams);
+            assert.equal(JSON.parse(k).version, 3);
+            assert.equal(await decrypt(k, NEW_PWD), entropyV1);
+        });
+
+        it('changePassword of old keystore keeps id as uuid', async function () {
+            const k = await changePassword(oldks, OLD_PWD, NEW_PWD, lightScryptParams);
+            assert.equal(JSON.parse(k).uuid, oldKeyJSON.id);
+            assert.equal(createAddressByPrivateKey(await decrypt(k, NEW_PWD)).address, oldKeyJSON.hexaddress);
+        });
+
+        it('upgrade sets payload of old keystore and V2', async function () {
+            const k = await upgrade(oldks, OLD_PWD, lightScryptParams);
+            assert.deepEqual(getPayload(k), { kind: 'privateKey' });
+            await assert.rejects(walletUtils.fromKeystore(k, OLD_PWD), /privateKey/);
+
+            const _k = await upgrade(ksV1toV2, PWD, lightScryptParams);
+            assert.deepEqual(getPayload(_k), { kind: 'entropy' });
+            const wallet = await walletUtils.fromKeystore(_k, PWD);
+            assert.equal(wallet.mnemonics, walletUtils.getMnemonicsFromEntropy(entropyV1));
+        });
+
+        it('reject wrong password, V1 and illegal keystore', async function () {
+            await assert.rejects(changePassword(ksV1toV3, 'wrong', NEW_PWD, lightScryptParams));
+            await assert.rejects(changePassword(ksV1, PWD, NEW_PWD, lightScryptParams));
+            await assert.rejects(upgrade('{}', PWD));
+        });
+
+        it('upgrade weak scrypt params', async function () {
+            const k = await upgrade(ksV1toV3, PWD, { n: 8192, r: 8 });
+            const keyJson = JSON.parse(k);
+
+            assert.equal(keyJson.uuid, keyJSONV1toV3.uuid);
+            assert.equal(keyJson.crypto.scryptparams.n, 8192);
+            assert.equal(await decrypt(k, PWD), entropyV1);
+        });
+
+        it('upgrade is skipped when scrypt params are strong enough', async function () {
+            assert.equal(await upgrade(ksV1toV3, PWD, lightScryptParams), ksV1toV3);
+            await assert.rejects(upgrade(ksV1toV3, 'wrong', lightScryptParams));
+        });
+    });
+
+    describe('payload', function () {
+        const payload = { kind: 'entropy', wordlistLang: 'english', derivationRoot: 'm/44\'/666666\'' };
+        const lightScryptParams = { n: 1024, r: 8, p: 1 };
+
+        it('keystore without payload', function () {
+            assert.equal(getPayload(ksV1toV3), null);
+            assert.equal(getPayload('{}'), null);
+        });
+
+        it('encrypt with payload', async function () {
+            const k = await encrypt(entropyV1, PWD, lightScryptParams, null, payload);
+            assert.deepEqual(getPayload(k), payload);
+            assert.deepEqual(getPayload(JSON.parse(k)), payload);
+            assert.equal(await decrypt(k, PWD), entropyV1);
+
+            const privateKeyKeystore = await encrypt(entropyV1, PWD, lightScryptParams, null, { kind: 'privateKey' });
+            assert.deepEqual(getPayload(privateKeyKeystore), { kind: 'privateKey' });
+        });
+
+        it('changePassword keeps payload', async function () {
+            const k = await encrypt(entropyV1, PWD, lightScryptParams, null, payload);
+            assert.deepEqual(getPayload(await changePassword(k, PWD, 'y', lightScryptParams)), payload);
+        });
+
+        it('illegal payload', async function () {
+            await assert.rejects(encrypt(entropyV1, PWD, lightScryptParams, null, { kind: 'seed' }));
+
+            const keyJson = JSON.parse(ksV1toV3);
+            keyJson.payload = { kind: 'seed' };
+            assert.equal(isValid(JSON.stringify(keyJson)), false);
+        });
+    });
+
+    describe('async scrypt', function () {
+        const scryptParams = { n: 4096, r: 8, p: 2, keylen: 32, salt: keyJSONV1.scryptParams.salt };
+        const expected = scryptsy(PWD, Buffer.from(scryptParams.salt, 'hex'), 4096, 8, 2, 32).toString('hex');
+
+        // Run as in browsers, where crypto.scrypt doesn't exist.
+        const withoutNodeScrypt = async func => {
+            const scrypt = crypto.scrypt;
+            crypto.scrypt = undefined;
+            try {
+                await func();
+            } finally {
+                crypto.scrypt = scrypt;
+            }
+        };
+
+        it('crypto.scrypt of Node.js', async function () {
+            const result = await encryptPwd(PWD, scryptParams);
+            assert.equal(result.toString('hex'), expected);
+        });
+
+        it('scryptsy in chunks', async function () {
+            await withoutNodeScrypt(async () => {
+                const result = await encryptPwd(PWD, scryptParams, {});
+                assert.equal(result.toString('hex'), expected);
+            });
+        });
+
+        it('onProgress runs scryptsy in chunks in Node.js too', async function () {
+            const progressList = [];
+            const result = await encryptPwd(PWD, scryptParams, { onProgress: progress => progressList.push(progress) });
+
+            assert.equal(result.toString('hex'), expected);
+            assert.equal(progressList.length, 16);
+            assert.equal(progressList[progressList.length - 1].total, 16384);
+        });
+
+        it('selfScryptsy is still supported', async function () {
+            const result = await encryptPwd(PWD, scryptParams, (pwd, salt, ...args) => Promise.resolve(scryptsy(pwd, Buffer.from(salt), ...args)));
+            assert.equal(result.toString('hex'), expected);
+        });
+
+        it('abort', async function () {
+            const controller = new AbortController();
+            controller.abort();
+            await assert.rejects(encrypt(entropyV1, PWD, null, { signal: controller.signal }), requestAborted);
+        });
+
+        it('abort scryptsy while running', async function () {
+            const controller = new AbortController();
+            let lastProgress = null;
+            const onProgress = progress => {
+                lastProgress = progress;
+                progress.current === 4000 && controller.abort();
+            };
+
+            await assert.rejects(decrypt(ksV1toV3, PWD, { onProgress, signal: controller.signal }), requestAborted);
+            await new Promise(res => setTimeout(res, 100));
+            assert.equal(lastProgress.current, 4000);
+        });
+    });
 }
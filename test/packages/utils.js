@@ -2,7 +2,7 @@ const assert = require('assert');
 
 import {
     getBytesSize, getOriginalTokenIdFromTokenId, isValidSBPName, isNonNegativeInteger,
-    isInteger, getTokenIdFromOriginalTokenId, uriStringify, ed25519,
+    isInteger, getTokenIdFromOriginalTokenId, uriStringify, uriParse, parseUnits, formatUnits, ed25519,
     isSafeInteger, isValidTokenId, isArray, isObject, isHexString, isBase64String
 } from '../../src/utils/index';
 
@@ -18,6 +18,86 @@ it('uriStringify', function () {
     assert.equal('vite:vite_fa1d81d93bcc36f234f7bccf1403924a0834609f4b2e9856ad/echo?amount=1&data=MTIzYWJjZA', uriStringify({ target_address: 'vite_fa1d81d93bcc36f234f7bccf1403924a0834609f4b2e9856ad', params: { amount: 1, data: 'MTIzYWJjZA' }, function_name: 'echo' }));
     assert.equal('vite:vite_fa1d81d93bcc36f234f7bccf1403924a0834609f4b2e9856ad?tti=tti_5649544520544f4b454e6e40&amount=1&data=MTIzYWJjZA', uriStringify({ target_address: 'vite_fa1d81d93bcc36f234f7bccf1403924a0834609f4b2e9856ad', params: { tti: 'tti_5649544520544f4b454e6e40', amount: 1, data: 'MTIzYWJjZA' }}));
 });
+describe('uriParse', function () {
+    const target_address = 'vite_fa1d81d93bcc36f234f7bccf1403924a0834609f4b2e9856ad';
+
+    it('reverse uriStringify', function () {
+        const uri = { schema: 'vite', prefix: 'pay', target_address, chain_id: 2, function_name: 'echo', params: { tti: 'tti_5649544520544f4b454e6e40', amount: '1.5', data: 'MTIzYWJjZA==' }};
+        assert.deepEqual(uriParse(uriStringify({ ...uri, params: { ...uri.params }})), uri);
+    });
+    it('only target_address', function () {
+        assert.deepEqual(uriParse(`vite:${ target_address }`), { schema: 'vite', target_address, params: {}});
+    });
+    it('base64 url-safe data', function () {
+        assert.equal(uriParse(`vite:${ target_address }?data=-_8`).params.data, '+/8=');
+    });
+    it('scientific notation', function () {
+        const { params } = uriParse(`vite:${ target_address }?amount=1.5e3&fee=1E-3`);
+        assert.deepEqual(params, { amount: '1500', fee: '0.001' });
+        assert.equal(uriParse(`vite:${ target_address }?amount=12.5e1`).params.amount, '125');
+        assert.equal(uriParse(`vite:${ target_address }?amount=1e%2B2`).params.amount, '100');
+    });
+    it('illegal', function () {
+        assert.throws(() => uriParse('vite_fa1d81d93bcc36f234f7bccf1403924a0834609f4b2e9856ad'));
+        assert.throws(() => uriParse('vite:vite_fa1d81d93bcc36f234f7bccf1403924a0834609f4b2e98'));
+        assert.throws(() => uriParse(`vite:${ target_address }?tti=tti_5649544520544f4b454e6e41`));
+        assert.throws(() => uriParse(`vite:${ target_address }?amount=1e`));
+        assert.throws(() => uriParse(`vite:${ target_address }?amount=1e1000`));
+        assert.throws(() => uriParse(`vite:${ target_address }@main`));
+    });
+});
+describe('parseUnits', function () {
+    it('decimal string', function () {
+        assert.equal(parseUnits('1.5', 18), '1500000000000000000');
+        assert.equal(parseUnits('0.000000000000000001', 18), '1');
+        assert.equal(parseUnits('.5', 2), '50');
+        assert.equal(parseUnits('12', 0), '12');
+        assert.equal(parseUnits('-1.20', 1), '-12');
+        assert.equal(parseUnits('123456789012345678901234567890', 18), '123456789012345678901234567890000000000000000000');
+    });
+    it('rounding', function () {
+        assert.throws(() => parseUnits('1.25', 1));
+        assert.equal(parseUnits('1.2500', 2), '125');
+        assert.equal(parseUnits('1.25', 1, 'down'), '12');
+        assert.equal(parseUnits('1.21', 1, 'up'), '13');
+        assert.equal(parseUnits('1.25', 1, 'halfUp'), '13');
+        assert.equal(parseUnits('1.25', 1, 'halfEven'), '12');
+        assert.equal(parseUnits('1.35', 1, 'halfEven'), '14');
+        assert.equal(parseUnits('1.251', 1, 'halfEven'), '13');
+        assert.equal(parseUnits('-0.04', 1, 'halfUp'), '0');
+    });
+    it('illegal', function () {
+        assert.throws(() => parseUnits('1e18', 18));
+        assert.throws(() => parseUnits('1.2.3', 18));
+        assert.throws(() => parseUnits('1', -1));
+        assert.throws(() => parseUnits('1', 18, 'ceil'));
+    });
+});
+describe('formatUnits', function () {
+    it('trim zeros', function () {
+        assert.equal(formatUnits('1500000000000000000', 18), '1.5');
+        assert.equal(formatUnits('1', 18), '0.000000000000000001');
+        assert.equal(formatUnits('1000', 3), '1');
+        assert.equal(formatUnits('0', 18), '0');
+        assert.equal(formatUnits('-125', 2), '-1.25');
+    });
+    it('decimalPlaces and rounding', function () {
+        assert.equal(formatUnits('1000', 3, { decimalPlaces: 2 }), '1.00');
+        assert.equal(formatUnits('1259', 3, { decimalPlaces: 2 }), '1.25');
+        assert.equal(formatUnits('1251', 3, { decimalPlaces: 2, rounding: 'up' }), '1.26');
+        assert.equal(formatUnits('1255', 3, { decimalPlaces: 2, rounding: 'halfEven' }), '1.26');
+        assert.equal(formatUnits('1999', 3, { decimalPlaces: 0, rounding: 'halfUp' }), '2');
+        assert.equal(formatUnits('12', 1, { decimalPlaces: 3 }), '1.200');
+    });
+    it('thousandsSeparator', function () {
+        assert.equal(formatUnits('1234567891', 3, { thousandsSeparator: ',' }), '1,234,567.891');
+        assert.equal(formatUnits('-123456', 0, { thousandsSeparator: ' ' }), '-123 456');
+    });
+    it('illegal', function () {
+        assert.throws(() => formatUnits('1.5', 18));
+        assert.throws(() => formatUnits('1', 18, { rounding: 'ceil' }));
+    });
+});
 it('isValidTokenId', function () {
     assert.equal(false, isValidTokenId('5649544520544f4b454e'));
     assert.equal(true, isValidTokenId('tti_5649544520544f4b454e6e40'));
@@ -0,0 +1,207 @@
+const assert = require('assert');
+
+import Provider from '../../../src/viteAPI/provider';
+import { cache, LRUStore } from '../../../src/viteAPI/cache';
+import AccountBlock from '../../../src/accountBlock/accountBlock';
+import { BlockType } from '../../../src/constant';
+
+function createTransport(results = {}) {
+    const transport = {
+        type: 'http',
+        height: 100,
+        calls: [],
+        request: (methodName, params) => {
+            transport.calls.push(methodName);
+            if (methodName === 'ledger_getSnapshotChainHeight') {
+                return Promise.resolve({ result: `${ transport.height }` });
+            }
+            const result = results[methodName];
+            return Promise.resolve({ result: typeof result === 'function' ? result(params) : result });
+        }
+    };
+    return transport;
+}
+
+function countOf(transport, methodName) {
+    return transport.calls.filter(_m => _m === methodName).length;
+}
+
+describe('LRUStore', function () {
+    it('evict the least recently used', function () {
+        const store = new LRUStore({ maxSize: 2 });
+        store.set('a', 1);
+        store.set('b', 2);
+        assert.equal(store.get('a'), 1);
+        store.set('c', 3);
+        assert.equal(store.get('b'), undefined);
+        assert.equal(store.get('a'), 1);
+        assert.equal(store.get('c'), 3);
+
+        store.delete('a');
+        assert.equal(store.get('a'), undefined);
+        store.set('d', 4);
+        assert.equal(store.get('c'), 3);
+        assert.equal(store.get('d'), 4);
+    });
+
+    it('illegal maxSize', function () {
+        assert.throws(() => new LRUStore({ maxSize: 0 }));
+    });
+});
+
+describe('cache', function () {
+    it('cache immutable results', async function () {
+        const transport = createTransport({
+            contract_getContractInfo: { code: 'code' },
+            ledger_getAccountInfoByAddress: { balance: '1' }
+        });
+        const provider = new Provider(transport);
+        provider.use(cache());
+
+        assert.deepEqual(await provider.request('contract_getContractInfo', 'vite_xxx'), { code: 'code' });
+        assert.deepEqual(await provider.request('contract_getContractInfo', 'vite_xxx'), { code: 'code' });
+        await provider.request('contract_getContractInfo', 'vite_yyy');
+        assert.equal(countOf(transport, 'contract_getContractInfo'), 2);
+
+        await provider.request('ledger_getAccountInfoByAddress', 'vite_xxx');
+        await provider.request('ledger_getAccountInfoByAddress', 'vite_xxx');
+        assert.equal(countOf(transport, 'ledger_getAccountInfoByAddress'), 2);
+    });
+
+    it('cache confirmed accountBlocks only', async function () {
+        const confirmations = { hash1: '100', hash2: '101' };
+        const transport = createTransport({
+            ledger_getAccountBlockByHash: ([hash]) => {
+                return { hash, confirmations: confirmations[hash] };
+            }
+        });
+        const provider = new Provider(transport);
+        provider.use(cache());
+
+        await provider.request('ledger_getAccountBlockByHash', 'hash1');
+        await provider.request('ledger_getAccountBlockByHash', 'hash1');
+        await provider.request('ledger_getAccountBlockByHash', 'hash2');
+        await provider.request('ledger_getAccountBlockByHash', 'hash2');
+        assert.equal(countOf(transport, 'ledger_getAccountBlockByHash'), 3);
+    });
+
+    it('return copies of results', async function () {
+        const transport = createTransport({ contract_getContractInfo: { code: 'code' } });
+        const provider = new Provider(transport);
+        provider.use(cache());
+
+        const result = await provider.request('contract_getContractInfo', 'vite_xxx');
+        result.code = 'changed';
+        const _result = await provider.request('contract_getContractInfo', 'vite_xxx');
+        assert.deepEqual(_result, { code: 'code' });
+        _result.code = 'changed';
+        assert.deepEqual(await provider.request('contract_getContractInfo', 'vite_xxx'), { code: 'code' });
+        assert.equal(countOf(transport, 'contract_getContractInfo'), 1);
+    });
+
+    it('don\'t cache re-issuable tokens and null', async function () {
+        const transport = createTransport({ contract_getTokenInfoById: ([tokenId]) => (tokenId === 'tti_none' ? null : { tokenId, isReIssuable: tokenId === 'tti_re' }) });
+        const provider = new Provider(transport);
+        provider.use(cache());
+
+        for (const tokenId of [ 'tti_re', 'tti_re', 'tti_none', 'tti_none', 'tti_fixed', 'tti_fixed' ]) {
+            await provider.request('contract_getTokenInfoById', tokenId);
+        }
+        assert.equal(countOf(transport, 'contract_getTokenInfoById'), 5);
+    });
+
+    it('expire by snapshot height', async function () {
+        const transport = createTransport({ contract_getSBPList: [] });
+        const provider = new Provider(transport);
+        provider.use(cache({
+            policies: { contract_getSBPList: { maxHeightAge: 10 } },
+            snapshotHeightTTL: 0
+        }));
+
+        await provider.request('contract_getSBPList');
+        transport.height = 110;
+        await provider.request('contract_getSBPList');
+        assert.equal(countOf(transport, 'contract_getSBPList'), 1);
+
+        transport.height = 111;
+        await provider.request('contract_getSBPList');
+        assert.equal(countOf(transport, 'contract_getSBPList'), 2);
+    });
+
+    it('pluggable store', async function () {
+        const data = {};
+        const store = {
+            get: key => Promise.resolve(data[key] ? JSON.parse(data[key]) : undefined),
+            set: (key, value) => {
+                data[key] = JSON.stringify(value);
+                return Promise.resolve();
+            },
+            delete: key => {
+                delete data[key];
+            }
+        };
+
+        const transport = createTransport({ contract_getContractInfo: { code: 'code' } });
+        const provider = new Provider(transport);
+        provider.use(cache({ store }));
+        await provider.request('contract_getContractInfo', 'vite_xxx');
+
+        const _provider = new Provider(transport);
+        _provider.use(cache({ store }));
+        assert.deepEqual(await _provider.request('contract_getContractInfo', 'vite_xxx'), { code: 'code' });
+        assert.equal(countOf(transport, 'contract_getContractInfo'), 1);
+    });
+
+    describe('wait for accountBlock', function () {
+        const address = 'vite_69f3bdb5cdcfa145ae6cc42593a89088ff3dac587eb692d689';
+        const receiveBlockHash = '0000000000000000000000000000000000000000000000000000000000000001';
+
+        // The snapshot chain grows on every request of its height, the send block is confirmed at 100 and received at 300.
+        function createChain() {
+            const transport = createTransport({
+                ledger_getAccountBlockByHash: ([hash]) => {
+                    if (hash === receiveBlockHash) {
+                        return { hash, blockType: BlockType.Response, confirmations: `${ transport.height - 300 }` };
+                    }
+                    return {
+                        hash,
+                        blockType: BlockType.TransferRequest,
+                        confirmations: `${ transport.height - 100 }`,
+                        receiveBlockHash: transport.height >= 300 ? receiveBlockHash : null
+                    };
+                }
+            });
+            const request = transport.request;
+            transport.request = (methodName, params) => {
+                if (methodName === 'ledger_getSnapshotChainHeight') {
+                    transport.height++;
+                }
+                return request(methodName, params);
+            };
+            transport.height = 250;
+
+            const provider = new Provider(transport);
+            provider.use(cache({ snapshotHeightTTL: 0 }));
+
+            const accountBlock = new AccountBlock({
+                blockType: BlockType.TransferRequest,
+                address,
+                toAddress: address,
+                amount: '0'
+            }, provider);
+            accountBlock.setPreviousHash('18095215a419e346dde2f678180382b65146502fb543a7e96c41b141136b47d9').setHeight('2');
+            return accountBlock;
+        }
+
+        it('waitForConfirmation', async function () {
+            const { accountBlock } = await createChain().waitForConfirmation({ confirmations: 180, interval: 1, timeout: 5000 });
+            assert.ok(Number(accountBlock.confirmations) >= 180);
+        });
+
+        it('waitForReceive', async function () {
+            const { accountBlock, receiveAccountBlock } = await createChain().waitForReceive({ interval: 1, timeout: 5000 });
+            assert.equal(accountBlock.receiveBlockHash, receiveBlockHash);
+            assert.equal(receiveAccountBlock.hash, receiveBlockHash);
+        });
+    });
+});
@@ -0,0 +1,147 @@
+const assert = require('assert');
+
+import ViteAPI from '../../../src/viteAPI/index';
+import Contract from '../../../src/viteAPI/contract';
+import EventEmitter from '../../../src/viteAPI/eventEmitter';
+import HTTP_RPC from '../../../src/HTTP';
+import Transaction from '../../../src/accountBlock/transaction';
+import { createAddressByPrivateKey } from '../../../src/wallet/address';
+import { encodeFunctionCall, encodeLogSignature, encodeParameters } from '../../../src/abi/index';
+
+const contractAddress = 'vite_0000000000000000000000000000000000000003f6af7459b9';
+const { privateKey, address } = createAddressByPrivateKey();
+
+const abi = [
+    { type: 'function', name: 'set', inputs: [{ name: 'value', type: 'uint256' }] },
+    { type: 'function', name: 'set', inputs: [ { name: 'key', type: 'string' }, { name: 'value', type: 'uint256' } ] },
+    { type: 'offchain', name: 'get', inputs: [{ name: 'key', type: 'string' }], outputs: [{ name: 'value', type: 'uint256' }] },
+    { type: 'event', name: 'Set', inputs: [ { name: 'key', type: 'string', indexed: true }, { name: 'value', type: 'uint256' } ] }
+];
+
+function getViteAPI(request = {}) {
+    const viteAPI = new ViteAPI(new HTTP_RPC(), () => {});
+    viteAPI.request = (methodName, ...params) => {
+        if (!request[methodName]) {
+            return Promise.reject(new Error(`Unexpected request ${ methodName }`));
+        }
+        return Promise.resolve(request[methodName](...params));
+    };
+    return viteAPI;
+}
+
+describe('Contract', function () {
+    it('viteAPI.contract', function () {
+        const contract = getViteAPI().contract({ address: contractAddress, abi });
+        assert.equal(contract instanceof Contract, true);
+        assert.deepEqual(Object.keys(contract.methods), ['set']);
+        assert.deepEqual(Object.keys(contract.query), ['get']);
+        assert.deepEqual(Object.keys(contract.events), ['Set']);
+    });
+
+    it('illegal address', function () {
+        assert.throws(() => getViteAPI().contract({ address, abi }));
+    });
+
+    it('illegal abi', function () {
+        assert.throws(() => getViteAPI().contract({ address: contractAddress, abi: [{ type: 'function', name: 'f', inputs: [{ type: 'uint7' }] }] }));
+    });
+
+    it('methods without transaction', function () {
+        const contract = getViteAPI().contract({ address: contractAddress, abi });
+        assert.throws(() => contract.methods.set(1).getAccountBlock());
+    });
+
+    it('methods with illegal params', function () {
+        const contract = getViteAPI().contract({ address: contractAddress, abi });
+        contract.setTransaction(new Transaction(address));
+        assert.throws(() => contract.methods.set(), /Params.length should be 1 or 2, but got 0/);
+        assert.throws(() => contract.methods.set(1, 2, 3));
+    });
+
+    it('methods.getAccountBlock, overloaded', function () {
+        const contract = getViteAPI().contract({ address: contractAddress, abi });
+        contract.setTransaction(new Transaction(address));
+
+        const accountBlock = contract.methods.set('key', 2).getAccountBlock({ amount: '10' });
+        assert.equal(accountBlock.toAddress, contractAddress);
+        assert.equal(accountBlock.amount, '10');
+        assert.equal(Buffer.from(accountBlock.data, 'base64').toString('hex'), encodeFunctionCall(abi[1], [ 'key', 2 ]));
+    });
+
+    it('methods.send', async function () {
+        let sendBlock = null;
+        const viteAPI = getViteAPI({
+            ledger_getLatestAccountBlock: () => null,
+            ledger_getPoWDifficulty: () => {
+                return { difficulty: '' };
+            },
+            ledger_sendRawTransaction: block => {
+                sendBlock = block;
+                return null;
+            }
+        });
+        const contract = viteAPI.contract({ address: contractAddress, abi });
+        contract.setTransaction(new Transaction(address).setPrivateKey(privateKey));
+
+        const result = await contract.methods.set(1).send();
+        assert.deepEqual(result, sendBlock);
+        assert.equal(sendBlock.address, address);
+        assert.equal(sendBlock.toAddress, contractAddress);
+        assert.equal(!!sendBlock.signature, true);
+        assert.equal(Buffer.from(sendBlock.data, 'base64').toString('hex'), encodeFunctionCall(abi[0], [1]));
+    });
+
+    it('query', async function () {
+        const viteAPI = getViteAPI({
+            contract_callOffChainMethod: ({ address, code, data }) => {
+                assert.equal(address, contractAddress);
+                assert.equal(code, 'b2ZmY2hhaW4=');
+                assert.equal(Buffer.from(data, 'base64').toString('hex'), encodeFunctionCall(abi[2], ['key']));
+                return Buffer.from(encodeParameters(abi[2].outputs, ['99']), 'hex').toString('base64');
+            }
+        });
+        const contract = viteAPI.contract({ address: contractAddress, abi, code: 'b2ZmY2hhaW4=' });
+
+        assert.deepEqual(await contract.query.get('key'), ['99']);
+    });
+
+    it('events.subscribe', async function () {
+        const viteAPI = getViteAPI();
+        const signature = encodeLogSignature(abi[3]);
+        let filter = null;
+        viteAPI.subscribe = (methodName, _filter) => {
+            assert.equal(methodName, 'createVmlogSubscription');
+            filter = _filter;
+            return Promise.resolve(new EventEmitter('0x1', viteAPI, true, methodName, [_filter]));
+        };
+
+        const contract = viteAPI.contract({ address: contractAddress, abi });
+        const event = await contract.events.Set.subscribe();
+        assert.deepEqual(filter, {
+            addressHeightRange: { [contractAddress]: { fromHeight: '0', toHeight: '0' } },
+            topics: [[signature]]
+        });
+
+        const results = [];
+        event.on(result => {
+            results.push(result);
+        });
+
+        const vmlog = {
+            topics: [ signature, '0000000000000000000000000000000000000000000000000000000000000001' ],
+            data: Buffer.from(encodeParameters(['uint256'], ['7']), 'hex').toString('base64')
+        };
+        event.emit([
+            { vmlog, accountBlockHash: 'a'.repeat(64), accountBlockHeight: '3', address: contractAddress, removed: false },
+            { vmlog: { topics: ['0'.repeat(64)], data: '' }, accountBlockHash: 'b'.repeat(64), accountBlockHeight: '4', address: contractAddress, removed: false }
+        ]);
+        event.emit([{ vmlog: { topics: ['0'.repeat(64)], data: '' }, accountBlockHash: 'c'.repeat(64), accountBlockHeight: '5', address: contractAddress, removed: false }]);
+
+        assert.equal(results.length, 1);
+        assert.equal(results[0].length, 1);
+        assert.equal(results[0][0].event, 'Set');
+        assert.equal(results[0][0].height, '3');
+        assert.equal(results[0][0].accountBlockHash, 'a'.repeat(64));
+        assert.equal(results[0][0].args.value, '7');
+    });
+});
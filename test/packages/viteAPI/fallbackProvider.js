@@ -0,0 +1,171 @@
+const assert = require('assert');
+
+import FallbackProvider from '../../../src/viteAPI/fallbackProvider';
+import ViteAPI from '../../../src/viteAPI/index';
+import { requestAborted } from '../../../src/error/index';
+
+// A fake HTTP provider, errors are connection errors unless `nodeError` is set.
+function createNode(name, { height = 100, state = 2, down = false, nodeError = false } = {}) {
+    const node = {
+        type: 'http',
+        name,
+        height,
+        state,
+        down,
+        calls: [],
+        request: (methodName, params) => {
+            node.calls.push(methodName);
+            if (node.down) {
+                return Promise.reject(new Error('CONNECT_ERROR'));
+            }
+            if (nodeError) {
+                return Promise.reject({ jsonrpc: '2.0', id: 1, error: { code: -32000, message: 'node error' } });
+            }
+            switch (methodName) {
+            case 'ledger_getSnapshotChainHeight':
+                return Promise.resolve({ result: `${ node.height }` });
+            case 'net_syncInfo':
+                return Promise.resolve({ result: { state: node.state } });
+            }
+            return Promise.resolve({ result: { name, params } });
+        },
+        batch: requests => {
+            node.calls.push('batch');
+            return Promise.resolve(requests.map(() => {
+                return { result: name };
+            }));
+        }
+    };
+    return node;
+}
+
+describe('FallbackProvider', function () {
+    it('illegal providers', function () {
+        assert.throws(() => new FallbackProvider([]));
+        assert.throws(() => new FallbackProvider());
+    });
+
+    it('drop-in for ViteAPI', async function () {
+        const provider = new FallbackProvider([ createNode('a'), createNode('b') ], { healthCheckInterval: 0 });
+        assert.equal(provider.type, 'http');
+
+        const api = new ViteAPI(provider, () => {});
+        assert.equal(api.isConnected, true);
+        const result = await api.request('ledger_getAccountInfoByAddress', 'vite_xxx');
+        assert.equal(result.name, 'a');
+    });
+
+    it('weighted round-robin for reads', async function () {
+        const provider = new FallbackProvider([
+            { provider: createNode('a'), weight: 2 },
+            createNode('b')
+        ], { healthCheckInterval: 0 });
+
+        const names = [];
+        for (let i = 0; i < 6; i++) {
+            const { result } = await provider.request('ledger_getAccountInfoByAddress', []);
+            names.push(result.name);
+        }
+        assert.deepEqual(names, [ 'a', 'b', 'a', 'a', 'b', 'a' ]);
+    });
+
+    it('pin sends and subscriptions to one node', async function () {
+        const provider = new FallbackProvider([ createNode('a'), { provider: createNode('b'), weight: 3 } ], { healthCheckInterval: 0 });
+
+        const names = [];
+        names.push((await provider.request('ledger_sendRawTransaction', [])).result.name);
+        names.push((await provider.request('subscribe_createSnapshotBlockFilter', [])).result.name);
+        names.push((await provider.request('subscribe_getChangesByFilterId', [])).result.name);
+        names.push((await provider.batch([{ type: 'request', methodName: 'ledger_sendRawTransaction', params: [] }]))[0].result);
+        assert.deepEqual(names, [ 'b', 'b', 'b', 'b' ]);
+    });
+
+    it('fail over when connection error', async function () {
+        const a = createNode('a', { down: true });
+        const b = createNode('b');
+        const provider = new FallbackProvider([ a, b ], { healthCheckInterval: 0 });
+
+        const { result } = await provider.request('ledger_getAccountInfoByAddress', []);
+        assert.equal(result.name, 'b');
+
+        // a is unhealthy now
+        await provider.request('ledger_getAccountInfoByAddress', []);
+        assert.deepEqual(a.calls, ['ledger_getAccountInfoByAddress']);
+    });
+
+    it('throw node errors directly', async function () {
+        const a = createNode('a', { nodeError: true });
+        const b = createNode('b');
+        const provider = new FallbackProvider([ a, b ], { healthCheckInterval: 0 });
+
+        await assert.rejects(provider.request('ledger_getAccountInfoByAddress', []), err => err.error.message === 'node error');
+        assert.deepEqual(b.calls, []);
+    });
+
+    it('not fail over after aborted', async function () {
+        const controller = new AbortController();
+        const a = createNode('a');
+        a.request = () => {
+            controller.abort();
+            return Promise.reject(requestAborted);
+        };
+        const b = createNode('b');
+        const provider = new FallbackProvider([ a, b ], { healthCheckInterval: 0 });
+
+        await assert.rejects(provider.request('ledger_getAccountInfoByAddress', [], { signal: controller.signal }), requestAborted);
+        assert.deepEqual(b.calls, []);
+    });
+
+    it('throw the last error when all nodes are down', async function () {
+        const provider = new FallbackProvider([ createNode('a', { down: true }), createNode('b', { down: true }) ], { healthCheckInterval: 0 });
+        await assert.rejects(provider.request('ledger_getAccountInfoByAddress', []), /CONNECT_ERROR/);
+    });
+
+    it('checkHealth', async function () {
+        const a = createNode('a', { height: 80 });
+        const b = createNode('b', { height: 100 });
+        const c = createNode('c', { height: 101, state: 1 });
+        const d = createNode('d', { height: 95 });
+        const provider = new FallbackProvider([ a, b, c, d ], { healthCheckInterval: 0, maxHeightLag: 10 });
+        await provider.checkHealth();
+
+        const names = [];
+        for (let i = 0; i < 4; i++) {
+            const { result } = await provider.request('ledger_getAccountInfoByAddress', []);
+            names.push(result.name);
+        }
+        assert.deepEqual(names, [ 'b', 'd', 'b', 'd' ]);
+
+        // Recovered
+        a.height = 100;
+        c.state = 2;
+        await provider.checkHealth();
+        const { result } = await provider.request('ledger_getAccountInfoByAddress', []);
+        assert.equal(result.name, 'a');
+    });
+
+    it('emit close and connect when the pinned node is lost', async function () {
+        const a = createNode('a');
+        const b = createNode('b');
+        const provider = new FallbackProvider([ a, b ], { healthCheckInterval: 0 });
+
+        const events = [];
+        provider.on('close', () => events.push('close'));
+        provider.on('connect', () => events.push('connect'));
+
+        await provider.request('subscribe_createSnapshotBlockFilter', []);
+        a.down = true;
+        const { result } = await provider.request('subscribe_getChangesByFilterId', []);
+        assert.equal(result.name, 'b');
+        assert.deepEqual(events, [ 'close', 'connect' ]);
+        assert.equal(provider.connectStatus, true);
+    });
+
+    it('health check timer', async function () {
+        const a = createNode('a');
+        const provider = new FallbackProvider([a], { healthCheckInterval: 5 });
+        await new Promise(res => setTimeout(res, 30));
+        provider.stopHealthCheck();
+        assert.equal(a.calls.indexOf('ledger_getSnapshotChainHeight') !== -1, true);
+    });
+});
@@ -3,7 +3,8 @@ const assert = require('assert');
 import ViteAPI from '../../../src/viteAPI/index';
 import Provider from '../../../src/viteAPI/provider';
 import HTTP_RPC from '../../../src/HTTP';
-import { encodeFunctionSignature } from '../../../src/abi/index';
+import EventEmitter from '../../../src/viteAPI/eventEmitter';
+import { encodeFunctionSignature, encodeFunctionCall, encodeLogSignature, encodeParameter, encodeParameters } from '../../../src/abi/index';
 
 const httpServer = new HTTP_RPC();
 const myViteAPI = new ViteAPI(httpServer, () => {
@@ -28,3 +29,208 @@ describe('ViteAPI addTxType', function () {
         assert.equal(myViteAPI.transactionType[key].transactionType, 'helloWorld');
     });
 });
+
+describe('ViteAPI callOffChainContract', function () {
+    const address = 'vite_0000000000000000000000000000000000000003f6af7459b9';
+    const abi = {
+        type: 'offchain',
+        name: 'getItem',
+        inputs: [{ name: 'id', type: 'uint256' }],
+        outputs: [{ name: 'item', type: 'tuple', components: [ { name: 'id', type: 'uint256' }, { name: 'title', type: 'string' } ] }]
+    };
+
+    it('decode tuple outputs', async function () {
+        const viteAPI = new ViteAPI(httpServer, () => {});
+        viteAPI.request = (methodName, { data }) => {
+            assert.equal(methodName, 'contract_callOffChainMethod');
+            assert.equal(Buffer.from(data, 'base64').toString('hex'), encodeFunctionCall(abi, [1]));
+            return Promise.resolve(Buffer.from(encodeParameters(abi.outputs, [[ 1, 'one' ]]), 'hex').toString('base64'));
+        };
+
+        const [item] = await viteAPI.callOffChainContract({ address, abi, params: [1] });
+        assert.equal(item.id, '1');
+        assert.equal(item.title, 'one');
+    });
+});
+
+describe('ViteAPI subscribeToEvents', function () {
+    const address = 'vite_0000000000000000000000000000000000000003f6af7459b9';
+    const abi = [
+        { type: 'event', name: 'Transfer', inputs: [ { name: 'to', type: 'address', indexed: true }, { name: 'amount', type: 'uint256' } ] },
+        { type: 'event', name: 'Burn', inputs: [{ name: 'amount', type: 'uint256' }] },
+        { type: 'function', name: 'transfer', inputs: [] }
+    ];
+    const to = 'vite_010000000000000000000000000000000000000063bef3da00';
+    const transferLog = {
+        vmlog: {
+            topics: [ encodeLogSignature(abi[0]), encodeParameter('address', to) ],
+            data: Buffer.from(encodeParameters(['uint256'], ['100']), 'hex').toString('base64')
+        },
+        accountBlockHash: 'a'.repeat(64),
+        accountBlockHeight: '10',
+        address,
+        removed: false
+    };
+    const burnLog = {
+        vmlog: {
+            topics: [encodeLogSignature(abi[1])],
+            data: Buffer.from(encodeParameters(['uint256'], ['5']), 'hex').toString('base64')
+        },
+        accountBlockHash: 'b'.repeat(64),
+        accountBlockHeight: '11',
+        address,
+        removed: false
+    };
+
+    it('subscribe and decode', async function () {
+        const viteAPI = new ViteAPI(httpServer, () => {});
+        let subscribeParams = null;
+        viteAPI.subscribe = (...params) => {
+            subscribeParams = params;
+            return Promise.resolve(new EventEmitter('0x1', viteAPI, true, params[0], [params[1]]));
+        };
+
+        const event = await viteAPI.subscribeToEvents({ address, abi, eventName: 'Transfer', fromHeight: 10 });
+        assert.deepEqual(subscribeParams, [ 'createVmlogSubscription', {
+            addressHeightRange: { [address]: { fromHeight: '10', toHeight: '0' } },
+            topics: [[encodeLogSignature(abi[0])]]
+        } ]);
+
+        const results = [];
+        event.on(result => results.push(result));
+        event.emit([ transferLog, burnLog ]);
+        event.emit([burnLog]);
+
+        assert.equal(results.length, 1);
+        assert.deepEqual(results[0], [{
+            event: 'Transfer',
+            args: { 0: to, 1: '100', to, amount: '100' },
+            accountBlockHash: 'a'.repeat(64),
+            height: '10',
+            address,
+            removed: false
+        }]);
+    });
+
+    it('all events of abi', async function () {
+        const viteAPI = new ViteAPI(httpServer, () => {});
+        let filter = null;
+        viteAPI.subscribe = (methodName, _filter) => {
+            filter = _filter;
+            return Promise.resolve(new EventEmitter('0x1', viteAPI, true, methodName, [_filter]));
+        };
+
+        const event = await viteAPI.subscribeToEvents({ address, abi });
+        assert.deepEqual(filter.topics, [[ encodeLogSignature(abi[0]), encodeLogSignature(abi[1]) ]]);
+
+        const results = [];
+        event.on(result => results.push(...result));
+        event.emit([ transferLog, burnLog ]);
+        assert.deepEqual(results.map(({ event }) => event), [ 'Transfer', 'Burn' ]);
+        assert.equal(results[1].args.amount, '5');
+    });
+
+    it('http filter', async function () {
+        const viteAPI = new ViteAPI(new HTTP_RPC(), () => {});
+        const requestList = [];
+        viteAPI._provider.request = (methodName, params) => {
+            requestList.push([ methodName, params ]);
+            return Promise.resolve({ result: 'filter_1' });
+        };
+
+        const event = await viteAPI.subscribeToEvents({ address, abi, eventName: 'Burn' });
+        event.off();
+
+        assert.equal(event.isSubscribe, false);
+        assert.deepEqual(requestList, [
+            [ 'subscribe_createVmlogFilter', [{ addressHeightRange: { [address]: { fromHeight: '0', toHeight: '0' } }, topics: [[encodeLogSignature(abi[1])]] }]],
+            [ 'subscribe_uninstallFilter', ['filter_1']]
+        ]);
+    });
+
+    it('illegal params', async function () {
+        const viteAPI = new ViteAPI(httpServer, () => {});
+        await assert.rejects(viteAPI.subscribeToEvents({ address: to, abi }));
+        await assert.rejects(viteAPI.subscribeToEvents({ address, abi, eventName: 'Mint' }));
+    });
+});
+
+describe('ViteAPI getPastEvents', function () {
+    const address = 'vite_0000000000000000000000000000000000000003f6af7459b9';
+    const abi = [
+        { type: 'event', name: 'Transfer', inputs: [ { name: 'to', type: 'address', indexed: true }, { name: 'amount', type: 'uint256' } ] },
+        { type: 'event', name: 'Burn', inputs: [{ name: 'amount', type: 'uint256' }] }
+    ];
+    const to = 'vite_010000000000000000000000000000000000000063bef3da00';
+
+    function getVmlog(jsonInterface, height, amount) {
+        const topics = [encodeLogSignature(jsonInterface)];
+        jsonInterface.name === 'Transfer' && topics.push(encodeParameter('address', to));
+        return {
+            vmlog: { topics, data: Buffer.from(encodeParameters(['uint256'], [amount]), 'hex').toString('base64') },
+            accountBlockHash: `${ height }`.padStart(64, '0'),
+            accountBlockHeight: `${ height }`,
+            address,
+            removed: false
+        };
+    }
+
+    function getViteAPI(vmlogList, latestHeight) {
+        const viteAPI = new ViteAPI(httpServer, () => {});
+        const requestList = [];
+        viteAPI.request = (methodName, ...params) => {
+            requestList.push([ methodName, ...params ]);
+            if (methodName === 'ledger_getLatestAccountBlock') {
+                return Promise.resolve(latestHeight ? { height: `${ latestHeight }` } : null);
+            }
+
+            const { fromHeight, toHeight } = params[0].addressHeightRange[address];
+            return Promise.resolve(vmlogList.filter(({ accountBlockHeight }) => Number(accountBlockHeight) >= Number(fromHeight) && Number(accountBlockHeight) <= Number(toHeight)).reverse());
+        };
+        return { viteAPI, requestList };
+    }
+
+    it('paging and sorting', async function () {
+        const vmlogList = [ getVmlog(abi[0], 1, '1'), getVmlog(abi[1], 3, '3'), getVmlog(abi[0], 4, '4'), getVmlog(abi[0], 5, '5') ];
+        const { viteAPI, requestList } = getViteAPI(vmlogList, 5);
+
+        const result = await viteAPI.getPastEvents({ address, abi, pageSize: 2 });
+        assert.deepEqual(requestList.map(([ methodName, params ]) => (methodName === 'ledger_getVmlogsByFilter' ? params.addressHeightRange[address] : methodName)), [
+            'ledger_getLatestAccountBlock',
+            { fromHeight: '1', toHeight: '2' },
+            { fromHeight: '3', toHeight: '4' },
+            { fromHeight: '5', toHeight: '5' }
+        ]);
+        assert.deepEqual(requestList[1][1].topics, [[ encodeLogSignature(abi[0]), encodeLogSignature(abi[1]) ]]);
+
+        assert.deepEqual(result.map(({ event, height }) => `${ event }:${ height }`), [ 'Transfer:1', 'Burn:3', 'Transfer:4', 'Transfer:5' ]);
+        assert.equal(result[0].args.to, to);
+        assert.equal(result[3].args.amount, '5');
+    });
+
+    it('eventName, height range and topics', async function () {
+        const vmlogList = [ getVmlog(abi[0], 2, '2'), getVmlog(abi[1], 3, '3') ];
+        const { viteAPI, requestList } = getViteAPI(vmlogList);
+        const topics = [[encodeParameter('address', to)]];
+
+        const result = await viteAPI.getPastEvents({ address, abi, eventName: 'Transfer', fromHeight: '2', toHeight: '3', topics });
+        assert.equal(requestList.length, 1);
+        assert.deepEqual(requestList[0][1], {
+            addressHeightRange: { [address]: { fromHeight: '2', toHeight: '3' } },
+            topics: [[encodeLogSignature(abi[0])], ...topics ]
+        });
+        assert.deepEqual(result.map(({ event, height }) => `${ event }:${ height }`), ['Transfer:2']);
+    });
+
+    it('no accountBlock', async function () {
+        const { viteAPI } = getViteAPI([]);
+        assert.deepEqual(await viteAPI.getPastEvents({ address, abi }), []);
+    });
+
+    it('illegal params', async function () {
+        const { viteAPI } = getViteAPI([]);
+        await assert.rejects(viteAPI.getPastEvents({ address, abi, fromHeight: '-1' }));
+        await assert.rejects(viteAPI.getPastEvents({ address, abi, pageSize: 0 }));
+        await assert.rejects(viteAPI.getPastEvents({ address, abi, eventName: 'Mint' }));
+    });
+});
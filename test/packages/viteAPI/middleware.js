@@ -0,0 +1,239 @@
+const assert = require('assert');
+
+import Provider from '../../../src/viteAPI/provider';
+import { logger, metrics, retry, rewrite, autoBatch, isIdempotentRequest } from '../../../src/viteAPI/middleware';
+
+// A fake HTTP provider, fails `failTimes` times by connection error.
+function createTransport({ failTimes = 0, nodeError = false } = {}) {
+    let failCount = 0;
+    const transport = {
+        type: 'http',
+        calls: [],
+        request: (methodName, params) => {
+            transport.calls.push(methodName);
+            if (failCount++ < failTimes) {
+                return Promise.reject(new Error('CONNECT_ERROR'));
+            }
+            if (nodeError) {
+                return Promise.reject({ jsonrpc: '2.0', id: 1, error: { code: -32000, message: 'node error' } });
+            }
+            return Promise.resolve({ result: { methodName, params } });
+        },
+        sendNotification: methodName => {
+            transport.calls.push(methodName);
+        },
+        batch: requests => {
+            transport.calls.push('batch');
+            transport.batchSizes = (transport.batchSizes || []).concat(requests.length);
+            if (failCount++ < failTimes) {
+                return Promise.reject(new Error('CONNECT_ERROR'));
+            }
+            return Promise.resolve(requests.map(({ methodName, params }) => (methodName === 'contract_fail'
+                ? { result: null, error: { code: -32000, message: `${ params[0] } failed` } }
+                : { result: methodName })));
+        }
+    };
+    return transport;
+}
+
+describe('Provider middlewares', function () {
+    it('call in order and modify request and response', async function () {
+        const provider = new Provider(createTransport());
+        const orders = [];
+        provider.use(async (req, next) => {
+            orders.push(1);
+            const rep = await next({ ...req, params: [ ...req.params, 'mw1' ] });
+            return { result: { ...rep.result, tag: 'mw1' } };
+        }).use((req, next) => {
+            orders.push(2);
+            return next();
+        });
+
+        const result = await provider.request('ledger_getAccountInfoByAddress', 'vite_xxx');
+        assert.deepEqual(orders, [ 1, 2 ]);
+        assert.deepEqual(result, { methodName: 'ledger_getAccountInfoByAddress', params: [ 'vite_xxx', 'mw1' ], tag: 'mw1' });
+    });
+
+    it('batch, notification and subscribe', async function () {
+        const transport = createTransport();
+        const provider = new Provider(transport);
+        const reqs = [];
+        provider.use((req, next) => {
+            reqs.push(req);
+            return next(req);
+        });
+
+        await provider.batch([{ methodName: 'ledger_getAccountInfoByAddress', params: [] }]);
+        await provider.sendNotification('ledger_getAccountInfoByAddress');
+        const event = await provider.subscribe('createSnapshotBlockSubscription');
+        provider.unsubscribe(event);
+
+        assert.equal(reqs[0] instanceof Array, true);
+        assert.equal(reqs[1].type, 'notification');
+        assert.equal(reqs[2].methodName, 'subscribe_createSnapshotBlockFilter');
+    });
+
+    it('illegal middleware', function () {
+        assert.throws(() => new Provider(createTransport()).use({}));
+    });
+});
+
+describe('logger', function () {
+    it('log request and error', async function () {
+        const records = [];
+        const provider = new Provider(createTransport({ nodeError: true }));
+        provider.use(logger({ log: record => records.push(record) }));
+
+        await assert.rejects(provider.request('ledger_getAccountInfoByAddress', 'vite_xxx'));
+        assert.equal(records.length, 1);
+        assert.equal(records[0].methodName, 'ledger_getAccountInfoByAddress');
+        assert.deepEqual(records[0].params, ['vite_xxx']);
+        assert.equal(records[0].error.error.message, 'node error');
+        assert.equal(typeof records[0].duration, 'number');
+    });
+});
+
+describe('metrics', function () {
+    it('count by method name', async function () {
+        const store = {};
+        const provider = new Provider(createTransport({ failTimes: 1 }));
+        provider.use(metrics(store));
+
+        await assert.rejects(provider.request('ledger_getAccountInfoByAddress'));
+        await provider.request('ledger_getAccountInfoByAddress');
+        await provider.batch([ { methodName: 'ledger_getAccountInfoByAddress', params: [] }, { methodName: 'contract_getSBPList', params: [] } ]);
+
+        assert.equal(store.ledger_getAccountInfoByAddress.count, 3);
+        assert.equal(store.ledger_getAccountInfoByAddress.errorCount, 1);
+        assert.equal(store.contract_getSBPList.count, 1);
+        assert.equal(store.contract_getSBPList.maxTime >= 0, true);
+    });
+});
+
+describe('retry', function () {
+    it('retry reads', async function () {
+        const transport = createTransport({ failTimes: 2 });
+        const provider = new Provider(transport);
+        provider.use(retry({ delay: 1 }));
+
+        const result = await provider.request('ledger_getAccountInfoByAddress');
+        assert.equal(result.methodName, 'ledger_getAccountInfoByAddress');
+        assert.equal(transport.calls.length, 3);
+    });
+
+    it('give up after retries', async function () {
+        const transport = createTransport({ failTimes: 5 });
+        const provider = new Provider(transport);
+        provider.use(retry({ retries: 2, delay: 1 }));
+
+        await assert.rejects(provider.request('contract_getSBPList'), /CONNECT_ERROR/);
+        assert.equal(transport.calls.length, 3);
+    });
+
+    it('don\'t retry sends and node errors', async function () {
+        const transport = createTransport({ failTimes: 1 });
+        const provider = new Provider(transport);
+        provider.use(retry({ delay: 1 }));
+        await assert.rejects(provider.request('ledger_sendRawTransaction', {}));
+        assert.equal(transport.calls.length, 1);
+
+        const _transport = createTransport({ nodeError: true });
+        const _provider = new Provider(_transport);
+        _provider.use(retry({ delay: 1 }));
+        await assert.rejects(_provider.request('ledger_getAccountInfoByAddress'));
+        assert.equal(_transport.calls.length, 1);
+    });
+
+    it('isIdempotentRequest', function () {
+        assert.equal(isIdempotentRequest({ type: 'request', methodName: 'ledger_getAccountInfoByAddress', params: [] }), true);
+        assert.equal(isIdempotentRequest({ type: 'request', methodName: 'contract_callOffChainMethod', params: [] }), true);
+        assert.equal(isIdempotentRequest({ type: 'request', methodName: 'ledger_sendRawTransaction', params: [] }), false);
+        assert.equal(isIdempotentRequest({ type: 'notification', methodName: 'ledger_getAccountInfoByAddress', params: [] }), false);
+        assert.equal(isIdempotentRequest({ type: 'request', methodName: 'wallet_unlock', params: [] }), false);
+        assert.equal(isIdempotentRequest([{ type: 'request', methodName: 'ledger_getAccountInfoByAddress', params: [] }]), true);
+    });
+});
+
+describe('rewrite', function () {
+    it('map method names', async function () {
+        const transport = createTransport();
+        const provider = new Provider(transport);
+        provider.use(rewrite({ ledger_getBlocksByAccAddr: 'ledger_getAccountBlocksByAddress' }));
+
+        const result = await provider.request('ledger_getBlocksByAccAddr', 'vite_xxx');
+        assert.equal(result.methodName, 'ledger_getAccountBlocksByAddress');
+
+        const reps = await provider.batch([ { methodName: 'ledger_getBlocksByAccAddr', params: [] }, { methodName: 'contract_getSBPList', params: [] } ]);
+        assert.deepEqual(reps.map(({ result }) => result), [ 'ledger_getAccountBlocksByAddress', 'contract_getSBPList' ]);
+    });
+
+    it('rewrite by function', async function () {
+        const provider = new Provider(createTransport());
+        provider.use(rewrite(req => {
+            return { ...req, params: ['rewritten'] };
+        }));
+        const result = await provider.request('ledger_getAccountInfoByAddress', 'vite_xxx');
+        assert.deepEqual(result.params, ['rewritten']);
+    });
+});
+
+describe('autoBatch', function () {
+    it('collect requests into batches', async function () {
+        const transport = createTransport();
+        const provider = new Provider(transport);
+        provider.use(autoBatch({ maxSize: 3 }));
+
+        const results = await Promise.all([ 'a', 'b', 'c', 'd' ].map(_m => provider.request(`ledger_${ _m }`)));
+        assert.deepEqual(results.slice(0, 3), [ 'ledger_a', 'ledger_b', 'ledger_c' ]);
+        assert.equal(results[3].methodName, 'ledger_d');
+        assert.deepEqual(transport.calls, [ 'batch', 'ledger_d' ]);
+        assert.deepEqual(transport.batchSizes, [3]);
+    });
+
+    it('map errors to requests', async function () {
+        const provider = new Provider(createTransport());
+        provider.use(autoBatch({ wait: 5 }));
+
+        const results = await Promise.all([
+            provider.request('ledger_a'),
+            provider.request('contract_fail', 'b').catch(err => err),
+            provider.request('ledger_c')
+        ]);
+        assert.equal(results[0], 'ledger_a');
+        assert.equal(results[1].message, 'b failed');
+        assert.equal(results[2], 'ledger_c');
+    });
+
+    it('reject all requests when the batch fails', async function () {
+        const provider = new Provider(createTransport({ failTimes: 1 }));
+        provider.use(autoBatch());
+
+        const results = await Promise.all([ provider.request('ledger_a').catch(err => err), provider.request('ledger_b').catch(err => err) ]);
+        assert.deepEqual(results.map(_e => _e.message), [ 'CONNECT_ERROR', 'CONNECT_ERROR' ]);
+    });
+
+    it('split large batches', async function () {
+        const transport = createTransport();
+        const provider = new Provider(transport);
+        provider.use(autoBatch({ maxSize: 2 }));
+
+        const reps = await provider.batch([ 'a', 'b', 'c', 'd', 'e' ].map(_m => {
+            return { methodName: `ledger_${ _m }`, params: [] };
+        }));
+        assert.deepEqual(reps.map(({ result }) => result), [ 'ledger_a', 'ledger_b', 'ledger_c', 'ledger_d', 'ledger_e' ]);
+        assert.deepEqual(transport.batchSizes, [ 2, 2, 1 ]);
+    });
+
+    it('send requests with options alone', async function () {
+        const transport = createTransport();
+        const provider = new Provider(transport);
+        provider.use(autoBatch());
+
+        await Promise.all([
+            provider.request('ledger_a'),
+            provider.requestWithOptions({ timeout: 1000 }, 'ledger_b'),
+            provider.request('ledger_c')
+        ]);
+        assert.deepEqual(transport.calls, [ 'ledger_b', 'batch' ]);
+    });
+});
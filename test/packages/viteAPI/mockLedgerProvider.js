@@ -0,0 +1,180 @@
+const assert = require('assert');
+
+import MockLedgerProvider from '../../../src/viteAPI/mockLedgerProvider';
+import ViteAPI from '../../../src/viteAPI/index';
+import Transaction from '../../../src/accountBlock/transaction';
+import { ReceiveAccountBlockTask } from '../../../src/accountBlock/receiveAccountBlockTask';
+import { Vite_TokenId } from '../../../src/constant';
+import { createAddressByPrivateKey } from '../../../src/wallet/address';
+
+const tokenId = 'tti_251a3e67a41b5ea2373936c8';
+
+function createLedger(options) {
+    const ledger = new MockLedgerProvider(options);
+    const api = new ViteAPI(ledger, () => {});
+    return { ledger, api };
+}
+
+function createTransaction(api, account) {
+    return new Transaction(account.address).setProvider(api).setPrivateKey(account.privateKey);
+}
+
+describe('MockLedgerProvider', function () {
+    it('mint, receive and send', async function () {
+        const { ledger, api } = createLedger();
+        const alice = createAddressByPrivateKey();
+        const bob = createAddressByPrivateKey();
+
+        const mintBlock = ledger.mint(alice.address, '100');
+        const { unreceived } = await api.getBalanceInfo(alice.address);
+        assert.equal(unreceived.balanceInfoMap[Vite_TokenId].balance, '100');
+        assert.equal(unreceived.blockCount, '1');
+
+        const receiveBlock = await createTransaction(api, alice).receive({ sendBlockHash: mintBlock.hash }).autoSendByPoW();
+        assert.equal(receiveBlock.height, '1');
+        assert.equal(ledger.getBalance(alice.address), '100');
+
+        const sendBlock = createTransaction(api, alice).send({ toAddress: bob.address, amount: '30' });
+        await sendBlock.autoSendByPoW();
+        assert.equal(ledger.getBalance(alice.address), '70');
+
+        const { balance } = await api.getBalanceInfo(alice.address);
+        assert.equal(balance.balanceInfoMap[Vite_TokenId].balance, '70');
+        assert.equal(balance.blockCount, '2');
+
+        const list = await api.getTransactionList({ address: alice.address, pageIndex: 0 });
+        assert.deepEqual(list.map(_t => _t.height), [ '2', '1' ]);
+
+        const unreceivedBlocks = await api.request('ledger_getUnreceivedBlocksByAddress', bob.address, 0, 10);
+        assert.equal(unreceivedBlocks[0].hash, sendBlock.hash);
+        assert.equal(unreceivedBlocks[0].fromAddress, alice.address);
+
+        await createTransaction(api, bob).receive({ sendBlockHash: sendBlock.hash }).autoSendByPoW();
+        const receipt = await sendBlock.waitForConfirmation({ interval: 1 });
+        assert.equal(receipt.status, 'success');
+        assert.equal(receipt.receiveAccountBlock.amount, '30');
+        assert.equal(ledger.getBalance(bob.address), '30');
+    });
+
+    it('reject illegal accountBlocks', async function () {
+        const { ledger, api } = createLedger();
+        const alice = createAddressByPrivateKey();
+        const bob = createAddressByPrivateKey();
+
+        // Balance is not enough
+        await assert.rejects(createTransaction(api, alice).send({ toAddress: bob.address, amount: '1' }).autoSend(), err => /Balance/.test(err.message));
+
+        const mintBlock = ledger.mint(alice.address, '100', tokenId);
+        const receiveBlock = createTransaction(api, alice).receive({ sendBlockHash: mintBlock.hash });
+        await receiveBlock.autoSend();
+
+        // Duplicated or received again
+        await assert.rejects(api.request('ledger_sendRawTransaction', receiveBlock.accountBlock), err => /exists/.test(err.message));
+        const _receiveBlock = createTransaction(api, alice).receive({ sendBlockHash: mintBlock.hash });
+        await assert.rejects(_receiveBlock.autoSend(), err => /not unreceived/.test(err.message));
+
+        // Wrong previousHash
+        const sendBlock = createTransaction(api, alice).send({ toAddress: bob.address, tokenId, amount: '1' });
+        sendBlock.setHeight('2').setPreviousHash(mintBlock.hash).sign();
+        await assert.rejects(sendBlock.send(), err => /previousHash is wrong/.test(err.message));
+
+        // Wrong signature
+        const accountBlock = createTransaction(api, alice).send({ toAddress: bob.address, tokenId, amount: '1' });
+        await accountBlock.autoSetPreviousAccountBlock();
+        accountBlock.sign();
+        await assert.rejects(api.request('ledger_sendRawTransaction', { ...accountBlock.accountBlock, amount: '2' }));
+
+        await assert.rejects(api.request('ledger_getNotExist'), err => err.code === -32601);
+        assert.throws(() => ledger.mint('vite_xxx', '1'));
+    });
+
+    it('amount and fee are checked together', async function () {
+        const { ledger, api } = createLedger();
+        const alice = createAddressByPrivateKey();
+        const bob = createAddressByPrivateKey();
+
+        for (const mintBlock of [ ledger.mint(alice.address, '100'), ledger.mint(alice.address, '5', tokenId) ]) {
+            await createTransaction(api, alice).receive({ sendBlockHash: mintBlock.hash }).autoSend();
+        }
+
+        const send = ({ tokenId: _tokenId, amount, fee }) => {
+            const accountBlock = createTransaction(api, alice).send({ toAddress: bob.address, tokenId: _tokenId, amount });
+            accountBlock.fee = fee;
+            return accountBlock.autoSend();
+        };
+
+        await assert.rejects(send({ tokenId, amount: '1', fee: '101' }), err => /Balance/.test(err.message));
+        assert.equal(ledger.getBalance(alice.address, tokenId), '5');
+        assert.equal(ledger.getBalance(alice.address), '100');
+
+        await assert.rejects(send({ tokenId: Vite_TokenId, amount: '60', fee: '50' }), err => /Balance/.test(err.message));
+        assert.equal(ledger.getBalance(alice.address), '100');
+
+        await send({ tokenId: Vite_TokenId, amount: '60', fee: '40' });
+        assert.equal(ledger.getBalance(alice.address), '0');
+    });
+
+    it('PoW', async function () {
+        const { ledger, api } = createLedger({ difficulty: '100' });
+        const alice = createAddressByPrivateKey();
+        const mintBlock = ledger.mint(alice.address, '1');
+
+        await assert.rejects(createTransaction(api, alice).receive({ sendBlockHash: mintBlock.hash }).autoSend(), err => /PoW/.test(err.message));
+
+        const accountBlock = await createTransaction(api, alice).receive({ sendBlockHash: mintBlock.hash }).autoSendByPoW();
+        assert.equal(accountBlock.difficulty, '100');
+    });
+
+    it('confirmations by snapshot blocks', async function () {
+        const { ledger, api } = createLedger({ autoSnapshot: false });
+        const alice = createAddressByPrivateKey();
+        const mintBlock = ledger.mint(alice.address, '1');
+        assert.equal((await api.request('ledger_getAccountBlockByHash', mintBlock.hash)).confirmations, '0');
+
+        ledger.createSnapshotBlock();
+        ledger.createSnapshotBlock();
+        const accountBlock = await api.request('ledger_getAccountBlockByHash', mintBlock.hash);
+        assert.equal(accountBlock.confirmations, '2');
+        assert.equal(await api.request('ledger_getSnapshotChainHeight'), '3');
+    });
+
+    it('ReceiveAccountBlockTask', async function () {
+        const { ledger, api } = createLedger();
+        const alice = createAddressByPrivateKey();
+        ledger.mint(alice.address, '1');
+        ledger.mint(alice.address, '2');
+
+        const task = new ReceiveAccountBlockTask({ address: alice.address, provider: api, privateKey: alice.privateKey });
+        const result = await new Promise((res, rej) => {
+            task.onSuccess(res);
+            task.onError(rej);
+            task.start({ checkTime: 1, transctionNumber: 5 });
+        });
+        task.stop();
+
+        assert.equal(result.accountBlockList.length, 2);
+        assert.equal(ledger.getBalance(alice.address), '3');
+    });
+
+    it('subscriptions', async function () {
+        const { ledger, api } = createLedger();
+        const alice = createAddressByPrivateKey();
+
+        const unreceivedEvent = await api.subscribe('createUnreceivedBlockSubscriptionByAddress', alice.address);
+        const accountBlockEvent = await api.subscribe('createAccountBlockSubscriptionByAddress', alice.address);
+        const snapshotEvent = await api.subscribe('createSnapshotBlockSubscription');
+        const results = { unreceived: [], accountBlock: [], snapshot: [] };
+        unreceivedEvent.on(result => results.unreceived.push(...result));
+        accountBlockEvent.on(result => results.accountBlock.push(...result));
+        snapshotEvent.on(result => results.snapshot.push(...result));
+
+        const mintBlock = ledger.mint(alice.address, '1');
+        const receiveBlock = await createTransaction(api, alice).receive({ sendBlockHash: mintBlock.hash }).autoSend();
+        await new Promise(res => setTimeout(res, 10));
+        api.unsubscribeAll();
+
+        assert.deepEqual(results.unreceived.map(({ hash, received }) => `${ hash }:${ received }`), [ `${ mintBlock.hash }:false`, `${ mintBlock.hash }:true` ]);
+        assert.deepEqual(results.accountBlock.map(({ hash }) => hash), [receiveBlock.hash]);
+        assert.deepEqual(results.snapshot.map(({ height }) => height), [ '2', '3' ]);
+    });
+});
@@ -2,6 +2,8 @@ const assert = require('assert');
 
 import Provider from '../../../src/viteAPI/provider';
 import HTTP_RPC from '../../../src/HTTP';
+import IPC_WS from '../../../src/communication/ipc_ws';
+import { requestAborted } from '../../../src/error/index';
 
 const httpServer = new HTTP_RPC();
 const viteProvider = new Provider(httpServer, () => {
@@ -21,3 +23,293 @@ it('property http isConnected', function () {
 [ 'setProvider', 'unsubscribe', 'unsubscribeAll', 'request', 'sendNotification', 'batch', 'subscribe' ].forEach(key => {
     assert.equal(typeof viteProvider[key], 'function');
 });
+
+describe('reconnect', function () {
+    const address = 'vite_69f3bdb5cdcfa145ae6cc42593a89088ff3dac587eb692d689';
+
+    class FakeWs extends IPC_WS {
+        constructor() {
+            super({ onEventTypes: [ 'error', 'close', 'connect' ], sendFuncName: 'send', path: 'fake' });
+            this.subscriptionCount = 0;
+            this.latestHeight = 2;
+            this.batchSizes = [];
+            this.pushOnSubscribe = null;
+            this.socket = { send: payload => setTimeout(() => this.reply(JSON.parse(payload))) };
+            this._connected();
+        }
+
+        handle({ id, method, params }) {
+            switch (method) {
+            case 'subscribe_subscribe': {
+                const subscription = `sub${ this.subscriptionCount++ }`;
+                const pushed = this.pushOnSubscribe;
+                pushed && setTimeout(() => this.push(subscription, pushed));
+                return { jsonrpc: '2.0', id, result: subscription };
+            }
+            case 'ledger_getLatestAccountBlock':
+                return { jsonrpc: '2.0', id, result: this.latestHeight ? { height: `${ this.latestHeight }` } : null };
+            case 'ledger_getAccountBlockByHeight':
+                return { jsonrpc: '2.0', id, result: { hash: `hash${ params[1] }`, height: params[1] } };
+            }
+        }
+
+        reply(payload) {
+            payload instanceof Array && this.batchSizes.push(payload.length);
+            const result = payload instanceof Array ? payload.map(p => this.handle(p)) : this.handle(payload);
+            this._parse([JSON.stringify(result)]);
+        }
+
+        push(subscription, result) {
+            this._parse([JSON.stringify({ jsonrpc: '2.0', method: 'subscribe_subscription', params: { subscription, result } })]);
+        }
+    }
+
+    it('resubscribe and replay accountBlocks', async function () {
+        const ws = new FakeWs();
+        const provider = new Provider(ws);
+        const event = await provider.subscribe('createAccountBlockSubscriptionByAddress', address);
+        assert.equal(event.id, 'sub0');
+        assert.equal(event.latestHeight, 2);
+
+        const received = [];
+        event.on(result => received.push(...result));
+        ws.push('sub0', [{ hash: 'hash3', height: '3', removed: false }]);
+        assert.equal(event.latestHeight, 3);
+
+        ws.latestHeight = 5;
+        ws._closed();
+        assert.equal(provider.isConnected, false);
+
+        const resubscribed = new Promise(res => event.onResubscribed(res));
+        ws._connected();
+        assert.equal(provider.isConnected, true);
+
+        const { status, id, previousId } = await resubscribed;
+        assert.deepEqual({ status, id, previousId }, { status: 'ok', id: 'sub1', previousId: 'sub0' });
+
+        await new Promise(res => setTimeout(res, 10));
+        assert.deepEqual(received.map(({ height }) => height), [ '3', '4', '5' ]);
+
+        ws.push('sub1', [{ hash: 'hash6', height: '6', removed: false }]);
+        assert.deepEqual(received.map(({ height }) => height), [ '3', '4', '5', '6' ]);
+        provider.unsubscribeAll();
+    });
+
+    it('replay a large height gap in pages', async function () {
+        const ws = new FakeWs();
+        const provider = new Provider(ws);
+        const event = await provider.subscribe('createAccountBlockSubscriptionByAddress', address);
+
+        const received = [];
+        event.on(result => received.push(...result));
+        ws.push('sub0', [{ hash: 'hash3', height: '3', removed: false }]);
+
+        ws.latestHeight = 253;
+        ws._closed();
+        const resubscribed = new Promise(res => event.onResubscribed(res));
+        ws._connected();
+        await resubscribed;
+
+        await new Promise(res => setTimeout(res, 50));
+        assert.deepEqual(ws.batchSizes, [ 100, 100, 50 ]);
+        assert.equal(received.length, 251);
+        assert.equal(received[received.length - 1].height, '253');
+        assert.equal(event.latestHeight, 253);
+        provider.unsubscribeAll();
+    });
+    it('replay from height 0', async function () {
+        const ws = new FakeWs();
+        ws.latestHeight = 0;
+        const provider = new Provider(ws);
+        const event = await provider.subscribe('createAccountBlockSubscriptionByAddress', address);
+        assert.equal(event.latestHeight, 0);
+
+        const received = [];
+        event.on(result => received.push(...result));
+
+        ws.latestHeight = 2;
+        ws._closed();
+        const resubscribed = new Promise(res => event.onResubscribed(res));
+        ws._connected();
+        await resubscribed;
+
+        await new Promise(res => setTimeout(res, 10));
+        assert.deepEqual(received.map(({ height }) => height), [ '1', '2' ]);
+        provider.unsubscribeAll();
+    });
+
+    it('emit each height once while replaying', async function () {
+        const ws = new FakeWs();
+        const provider = new Provider(ws);
+        const event = await provider.subscribe('createAccountBlockSubscriptionByAddress', address);
+
+        const received = [];
+        event.on(result => received.push(...result));
+        ws.push('sub0', [{ hash: 'hash3', height: '3', removed: false }]);
+
+        // The new subscription emits height 5 before heights 4 and 5 are replayed.
+        ws.latestHeight = 5;
+        ws.pushOnSubscribe = [{ hash: 'hash5', height: '5', removed: false }];
+        ws._closed();
+        const resubscribed = new Promise(res => event.onResubscribed(res));
+        ws._connected();
+        await resubscribed;
+
+        await new Promise(res => setTimeout(res, 10));
+        assert.deepEqual(received.map(({ height }) => height), [ '3', '5', '4' ]);
+        provider.unsubscribeAll();
+    });
+
+    it('keep listeners of reconnecting when listeners of users are removed', async function () {
+        const ws = new FakeWs();
+        const provider = new Provider(ws);
+        const event = await provider.subscribe('createAccountBlockSubscriptionByAddress', address);
+
+        const called = [];
+        ws.on('connect', () => called.push('connect'));
+        ws.remove('connect');
+        ws.remove('close');
+
+        ws._closed();
+        assert.equal(provider.isConnected, false);
+
+        const resubscribed = new Promise(res => event.onResubscribed(res));
+        ws._connected();
+        const { status, id } = await resubscribed;
+        assert.deepEqual({ status, id }, { status: 'ok', id: 'sub1' });
+        assert.deepEqual(called, []);
+        provider.unsubscribeAll();
+    });
+});
+
+describe('cancel requests', function () {
+    // Requests are never replied, until they're replied by `reply`.
+    class SilentWs extends IPC_WS {
+        constructor({ connected = true } = {}) {
+            super({ onEventTypes: [ 'error', 'close', 'connect' ], sendFuncName: 'send', path: 'fake' });
+            this.payloads = [];
+            this.socket = { send: payload => this.payloads.push(JSON.parse(payload)) };
+            connected && this._connected();
+        }
+
+        reply(payload, result) {
+            this._parse([JSON.stringify({ jsonrpc: '2.0', id: payload.id, result })]);
+        }
+    }
+
+    it('abort a request by signal', async function () {
+        const ws = new SilentWs();
+        const provider = new Provider(ws);
+        const controller = new AbortController();
+
+        const req = provider.requestWithOptions({ signal: controller.signal }, 'ledger_getLatestAccountBlock', 'vite_xxx');
+        assert.equal(Object.keys(ws.responseCbs).length, 1);
+        assert.equal(Object.keys(ws._requestManager).length, 1);
+
+        controller.abort();
+        await assert.rejects(req, err => err.code === '300003');
+        assert.deepEqual(ws.responseCbs, {});
+        assert.deepEqual(ws._requestManager, {});
+    });
+
+    it('transports reject with requestAborted', async function () {
+        const ws = new SilentWs();
+        const controller = new AbortController();
+
+        const req = ws.request('ledger_getLatestAccountBlock', ['vite_xxx'], { signal: controller.signal });
+        controller.abort();
+        await assert.rejects(req, requestAborted);
+        await assert.rejects(ws.request('ledger_getLatestAccountBlock', ['vite_xxx'], { signal: controller.signal }), requestAborted);
+
+        const http = new HTTP_RPC('http://127.0.0.1:1');
+        await assert.rejects(http.request('ledger_getLatestAccountBlock', ['vite_xxx'], { signal: controller.signal }), requestAborted);
+    });
+
+    it('reject at once when the signal is already aborted', async function () {
+        const ws = new SilentWs();
+        const provider = new Provider(ws);
+        const controller = new AbortController();
+        controller.abort();
+
+        await assert.rejects(provider.requestWithOptions({ signal: controller.signal }, 'ledger_getLatestAccountBlock', 'vite_xxx'), err => err.code === '300003');
+        assert.deepEqual(ws.payloads, []);
+    });
+
+    it('per-call timeout', async function () {
+        const ws = new SilentWs();
+        const provider = new Provider(ws);
+
+        await assert.rejects(provider.requestWithOptions({ timeout: 10 }, 'ledger_getLatestAccountBlock', 'vite_xxx'), err => err.code === '300001');
+
+        // The transport's timer is the next one.
+        await new Promise(res => setTimeout(res));
+        assert.deepEqual(ws.responseCbs, {});
+        assert.deepEqual(ws._requestManager, {});
+    });
+
+    it('other requests are not affected', async function () {
+        const ws = new SilentWs();
+        const provider = new Provider(ws);
+        const controller = new AbortController();
+
+        const aborted = provider.requestWithOptions({ signal: controller.signal }, 'ledger_getLatestAccountBlock', 'vite_xxx');
+        const req = provider.request('ledger_getLatestAccountBlock', 'vite_yyy');
+        controller.abort();
+        await assert.rejects(aborted, err => err.code === '300003');
+
+        ws.reply(ws.payloads[1], { height: '1' });
+        assert.deepEqual(await req, { height: '1' });
+    });
+
+    it('abort a batch', async function () {
+        const ws = new SilentWs();
+        const provider = new Provider(ws);
+        const controller = new AbortController();
+
+        const req = provider.batch([
+            { methodName: 'ledger_getLatestAccountBlock', params: ['vite_xxx'] },
+            { methodName: 'ledger_getLatestAccountBlock', params: ['vite_yyy'] }
+        ], { signal: controller.signal });
+        controller.abort();
+
+        await assert.rejects(req, err => err.code === '300003');
+        assert.deepEqual(ws.responseCbs, {});
+        assert.deepEqual(ws._requestManager, {});
+    });
+
+    it('abort a request waiting for connection', async function () {
+        const ws = new SilentWs({ connected: false });
+        const provider = new Provider(ws);
+        const controller = new AbortController();
+
+        const req = provider.requestWithOptions({ signal: controller.signal }, 'ledger_getLatestAccountBlock', 'vite_xxx');
+        assert.equal(Object.keys(provider.requestList).length, 1);
+
+        controller.abort();
+        await assert.rejects(req, err => err.code === '300003');
+        assert.deepEqual(provider.requestList, {});
+
+        ws._connected();
+        assert.deepEqual(ws.payloads, []);
+    });
+
+    it('timeout of a request waiting for connection', async function () {
+        const ws = new SilentWs({ connected: false });
+        const provider = new Provider(ws);
+
+        await assert.rejects(provider.requestWithOptions({ timeout: 10 }, 'ledger_getLatestAccountBlock', 'vite_xxx'), err => err.code === '300001');
+        assert.deepEqual(provider.requestList, {});
+    });
+
+    it('abort a subscription request', async function () {
+        const ws = new SilentWs();
+        const provider = new Provider(ws);
+        const controller = new AbortController();
+
+        const req = provider.subscribeWithOptions({ signal: controller.signal }, 'createSnapshotBlockSubscription');
+        controller.abort();
+
+        await assert.rejects(req, err => err.code === '300003');
+        assert.deepEqual(provider.subscriptionList, {});
+    });
+});
@@ -0,0 +1,68 @@
+const assert = require('assert');
+
+import TokenRegistry from '../../../src/viteAPI/tokenRegistry';
+import { Vite_TokenId, VX_TokenId } from '../../../src/constant';
+import { paramsFormat } from '../../../src/error/index';
+
+const Token_A = 'tti_251a3e67a41b5ea2373936c8';
+
+function createProvider(tokens = {}) {
+    const provider = {
+        calls: 0,
+        request: (methodName, tokenId) => {
+            provider.calls++;
+            return Promise.resolve(tokens[tokenId] || null);
+        }
+    };
+    return provider;
+}
+
+describe('TokenRegistry', function () {
+    it('parseAmount of default tokens without request', async function () {
+        const provider = createProvider();
+        const registry = new TokenRegistry(provider);
+
+        assert.deepEqual(await registry.parseAmount('10.5 VITE'), { tokenId: Vite_TokenId, amount: '10500000000000000000' });
+        assert.deepEqual(await registry.parseAmount('1 VX'), { tokenId: VX_TokenId, amount: '1000000000000000000' });
+        assert.deepEqual(await registry.parseAmount('2'), { tokenId: Vite_TokenId, amount: '2000000000000000000' });
+        assert.equal(provider.calls, 0);
+    });
+
+    it('fetch decimals once by tokenId', async function () {
+        const provider = createProvider({ [Token_A]: { tokenId: Token_A, tokenSymbol: 'AAA', decimals: '2', index: '3' }});
+        const registry = new TokenRegistry(provider);
+
+        const [ a, b ] = await Promise.all([ registry.getDecimals(Token_A), registry.getDecimals(Token_A) ]);
+        assert.equal(a, 2);
+        assert.equal(b, 2);
+        assert.deepEqual(await registry.parseAmount(`1.25 ${ Token_A }`), { tokenId: Token_A, amount: '125' });
+        assert.deepEqual(await registry.parseAmount('1.25', { tokenId: Token_A }), { tokenId: Token_A, amount: '125' });
+        assert.deepEqual(await registry.parseAmount('1.25 AAA-003'), { tokenId: Token_A, amount: '125' });
+        assert.equal(await registry.formatAmount('123456', Token_A, { thousandsSeparator: ',' }), '1,234.56');
+        assert.equal(provider.calls, 1);
+
+        // Only the token with index 0 is known by the bare symbol.
+        await assert.rejects(registry.parseAmount('1 AAA'));
+    });
+
+    it('reject unsafe amounts', async function () {
+        const registry = new TokenRegistry(createProvider(), { tokens: [{ tokenId: Token_A, tokenSymbol: 'AAA', decimals: 2, index: 0 }] });
+
+        await assert.rejects(registry.parseAmount('1.255 AAA'));
+        assert.deepEqual(await registry.parseAmount('1.255 AAA', { rounding: 'halfUp' }), { tokenId: Token_A, amount: '126' });
+        await assert.rejects(registry.parseAmount('1 AAA', { tokenId: Vite_TokenId }));
+        await assert.rejects(registry.parseAmount('1 VITE'));
+        await assert.rejects(registry.parseAmount('1 2 AAA'));
+        await assert.rejects(registry.parseAmount('-1 AAA'), { code: paramsFormat.code });
+        await assert.rejects(registry.parseAmount('-0', { tokenId: Token_A }), { code: paramsFormat.code });
+    });
+
+    it('retry after the token is not found', async function () {
+        const provider = createProvider();
+        const registry = new TokenRegistry(provider);
+
+        await assert.rejects(registry.getTokenInfo(Token_A));
+        await assert.rejects(registry.getTokenInfo(Token_A));
+        assert.equal(provider.calls, 2);
+    });
+});
@@ -2,6 +2,8 @@ const assert = require('assert');
 const bip39 = require('bip39');
 
 import walletUtils from '../../../src/wallet/index.ts';
+import Wallet from '../../../src/wallet/wallet.ts';
+import { encrypt, encryptOldKeystore, getPayload } from '../../../src/keystore/index';
 
 const mnemonics = 'horn equal mystery success pride regret renew great witness hire man moon';
 const id = '714f0048664984b8459cbb522f49591e4d026406db2a692cad10e328776359f9';
@@ -144,3 +146,50 @@ describe('getWallet', function () {
         }
     });
 });
+
+describe('toKeystore and fromKeystore', function () {
+    const PWD = '123456';
+    const scryptParams = { n: 1024, r: 8, p: 1 };
+
+    it('round-trip with passphrase', async function () {
+        const wallet = walletUtils.getWallet(mnemonics, bip39.wordlists.EN, 'hint');
+        const keystore = await wallet.toKeystore(PWD, scryptParams);
+
+        assert.deepEqual(getPayload(keystore), { kind: 'entropy', wordlistLang: 'english', derivationRoot: walletUtils.ROOT_PATH });
+
+        const _wallet = await walletUtils.fromKeystore(keystore, PWD, 'hint');
+        assert.equal(_wallet.mnemonics, mnemonics);
+        assert.equal(_wallet.seedHex, wallet.seedHex);
+        assert.equal(_wallet.deriveAddress(0).address, wallet.deriveAddress(0).address);
+    });
+
+    it('round-trip of japanese wordlist', async function () {
+        const wallet = walletUtils.createWallet(128, bip39.wordlists.japanese);
+        const _wallet = await walletUtils.fromKeystore(await wallet.toKeystore(PWD, scryptParams), PWD);
+
+        assert.equal(_wallet.mnemonics, wallet.mnemonics);
+        assert.deepEqual(_wallet.wordlist, bip39.wordlists.japanese);
+    });
+
+    it('keystore without payload is an english wallet', async function () {
+        const keystore = await encrypt(walletUtils.getEntropyFromMnemonics(mnemonics), PWD, scryptParams);
+        const wallet = await walletUtils.fromKeystore(keystore, PWD);
+        assert.equal(wallet.id, id);
+    });
+
+    it('reject privateKey keystore and custom wordlist', async function () {
+        const { privateKey } = walletUtils.createAddressByPrivateKey();
+        const keystore = await encrypt(privateKey, PWD, scryptParams, null, { kind: 'privateKey' });
+
+        await assert.rejects(walletUtils.fromKeystore(keystore, PWD));
+        const customWordlist = [ 'abandonx', ...bip39.wordlists.EN.slice(1) ];
+        await assert.rejects(new Wallet(mnemonics, customWordlist).toKeystore(PWD, scryptParams));
+    });
+
+    it('reject old keystore, which contains a privateKey without payload', async function () {
+        const { privateKey } = walletUtils.createAddressByPrivateKey();
+        const keystore = await encryptOldKeystore(privateKey, PWD);
+
+        await assert.rejects(walletUtils.fromKeystore(keystore, PWD), { message: 'Keystore contains a privateKey, not the entropy of a wallet' });
+    });
+});
@@ -0,0 +1,58 @@
+// Compile-time tests of RPC types, checked by `yarn test:types`. Nothing here is run.
+import Provider from '../../src/viteAPI/provider';
+import { AccountInfo, AccountBlockType, TokenInfo, Uint64, RpcParams, RpcResult } from '../../src/viteAPI/type';
+
+// true only if A and B are assignable to each other, `any` is only the same as `any`.
+type IsAny<T> = 0 extends (1 & T) ? true : false;
+type Equals<A, B> = IsAny<A> extends true
+    ? IsAny<B>
+    : IsAny<B> extends true ? false : [A] extends [B] ? [B] extends [A] ? true : false : false;
+declare function assertType<T extends true>(): void;
+
+declare const provider: InstanceType<typeof Provider>;
+
+assertType<Equals<RpcParams<'ledger_getAccountBlockByHeight'>, [string, Uint64]>>();
+assertType<Equals<RpcParams<'ledger_getSnapshotChainHeight'>, []>>();
+assertType<Equals<RpcResult<'ledger_getAccountInfoByAddress'>, AccountInfo>>();
+assertType<Equals<RpcResult<'ledger_getAccountBlockByHash'>, AccountBlockType | null>>();
+
+// Methods not in RpcSchema are called with any params and return any.
+assertType<Equals<RpcParams<'custom_method'>, any[]>>();
+assertType<Equals<RpcResult<'custom_method'>, any>>();
+
+async function request() {
+    const accountInfo = await provider.request('ledger_getAccountInfoByAddress', 'vite_xxx');
+    assertType<Equals<typeof accountInfo, AccountInfo>>();
+
+    const height = await provider.request('ledger_getSnapshotChainHeight');
+    assertType<Equals<typeof height, Uint64>>();
+
+    const tokenInfo = await provider.requestWithOptions({ timeout: 1000 }, 'contract_getTokenInfoById', 'tti_xxx');
+    assertType<Equals<typeof tokenInfo, TokenInfo | null>>();
+
+    const result = await provider.request('custom_method', 1, { a: 1 });
+    assertType<Equals<typeof result, any>>();
+
+    // @ts-expect-error params are missing
+    await provider.request('ledger_getAccountInfoByAddress');
+    // @ts-expect-error too many params
+    await provider.request('ledger_getAccountInfoByAddress', 'vite_xxx', 1);
+    // @ts-expect-error wrong type of a param
+    await provider.request('ledger_getAccountBlocksByAddress', 'vite_xxx', '0', 10);
+    // @ts-expect-error the result isn't a string
+    const _height: number = await provider.request('ledger_getSnapshotChainHeight');
+    return _height;
+}
+
+async function batch() {
+    const [ accountInfo, accountBlock, other ] = await provider.batch([
+        { methodName: 'ledger_getAccountInfoByAddress', params: ['vite_xxx'] },
+        { methodName: 'ledger_getLatestAccountBlock', params: ['vite_xxx'] },
+        { methodName: 'custom_method', params: [] }
+    ]);
+    assertType<Equals<typeof accountInfo.result, AccountInfo>>();
+    assertType<Equals<typeof accountBlock.result, AccountBlockType | null>>();
+    assertType<Equals<typeof other.result, any>>();
+}
+
+export { request, batch };